@@ -0,0 +1,52 @@
+/**
+ * Admin API Routes
+ * Maintenance endpoints (completion cache, request scheduler)
+ */
+
+import { FastifyInstance } from 'fastify';
+import { completionCache } from '../../core/completion-cache.js';
+import { requestScheduler } from '../../core/scheduler.js';
+
+/**
+ * Register admin routes
+ */
+export async function adminRoutes(server: FastifyInstance) {
+  /**
+   * GET /api/admin/cache/stats
+   * Completion cache size and hit/miss statistics
+   */
+  server.get('/api/admin/cache/stats', async (_request, reply) => {
+    try {
+      return await completionCache.stats();
+    } catch (error: any) {
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/cache
+   * Remove every cached completion
+   */
+  server.delete('/api/admin/cache', async (_request, reply) => {
+    try {
+      const removed = await completionCache.clear();
+      return { success: true, removed };
+    } catch (error: any) {
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/admin/scheduler
+   * Active, queued and paused requests per scheduler lane
+   */
+  server.get('/api/admin/scheduler', async () => {
+    return { lanes: requestScheduler.status() };
+  });
+}
@@ -0,0 +1,99 @@
+/**
+ * Datasets API routes
+ */
+
+import { FastifyInstance } from 'fastify';
+import { getDataset, getExamplesByDataset } from '../../db/crud.js';
+import { datasetImporter, DatasetImportError } from '../../services/dataset-importer.js';
+import { UploadDatasetSchema, type UploadDatasetRequest } from '../schemas/dataset.js';
+
+/**
+ * Largest accepted upload body (the default limit is 1 MB)
+ */
+const UPLOAD_BODY_LIMIT = 10 * 1024 * 1024;
+
+/**
+ * Register dataset routes
+ */
+export async function datasetsRoutes(server: FastifyInstance) {
+  /**
+   * POST /api/datasets/upload
+   * Import a CSV or JSONL dataset for evaluation and optimization runs
+   */
+  server.post('/api/datasets/upload', { bodyLimit: UPLOAD_BODY_LIMIT }, async (request, reply) => {
+    let data: UploadDatasetRequest;
+    try {
+      data = UploadDatasetSchema.parse(request.body);
+    } catch (error: any) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: error.message || 'Invalid request',
+        details: error.issues || error,
+      });
+    }
+
+    try {
+      const dataset = await datasetImporter.import(data);
+
+      return {
+        success: true,
+        dataset_id: dataset.id,
+        example_count: dataset.exampleCount,
+        domain: dataset.domain,
+      };
+    } catch (error: any) {
+      if (error instanceof DatasetImportError) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: error.message,
+          details: error.issues,
+        });
+      }
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/datasets/:datasetId
+   * Get a stored dataset with its examples
+   */
+  server.get<{
+    Params: { datasetId: string };
+  }>('/api/datasets/:datasetId', async (request, reply) => {
+    try {
+      const dataset = await getDataset(request.params.datasetId);
+      if (!dataset) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Dataset ${request.params.datasetId} not found`,
+        });
+      }
+      const examples = await getExamplesByDataset(dataset.id);
+
+      return {
+        dataset_id: dataset.id,
+        prompt_id: dataset.prompt_id,
+        domain: dataset.domain,
+        difficulty_levels: JSON.parse(dataset.difficulty_levels),
+        criteria: JSON.parse(dataset.criteria_json),
+        example_count: examples.length,
+        examples: examples.map((example) => ({
+          id: example.id,
+          input: example.input_text,
+          expected_output: example.expected_output,
+          difficulty: example.difficulty,
+          ...(example.metadata_json ? JSON.parse(example.metadata_json) : {}),
+        })),
+        created_at: dataset.created_at,
+      };
+    } catch (error: any) {
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+}
@@ -0,0 +1,127 @@
+/**
+ * Evaluation API routes
+ */
+
+import { FastifyInstance } from 'fastify';
+import { CancelledError, isCancellation } from '../../core/cancellation.js';
+import { getDataset, getEvaluation, getVersion } from '../../db/crud.js';
+import { evaluationService } from '../../services/evaluation-service.js';
+import { evaluator, normalizeMetrics } from '../../services/evaluator.js';
+import { EvaluateRequestSchema, type EvaluateRequest } from '../schemas/evaluation.js';
+import { EventQueue, createSSEResponse } from '../../utils/streaming.js';
+
+/**
+ * Register evaluation routes
+ */
+export async function evaluationRoutes(server: FastifyInstance) {
+  /**
+   * POST /api/evaluate
+   * Score a prompt (or stored version) against a stored dataset with SSE streaming
+   */
+  server.post('/api/evaluate', async (request, reply) => {
+    console.log('[API] POST /api/evaluate called');
+
+    let data: EvaluateRequest;
+    try {
+      data = EvaluateRequestSchema.parse(request.body);
+      // Unknown or conflicting metric IDs are rejected before streaming starts
+      evaluator.resolveMetrics(
+        data.metrics,
+        data.custom_metrics,
+        data.evaluation_config.reference_metrics
+      );
+    } catch (error: any) {
+      return reply.code(400).send({
+        error: 'Bad Request',
+        message: error.message || 'Invalid request',
+        details: error.issues || error,
+      });
+    }
+
+    try {
+      const [dataset, version] = await Promise.all([
+        getDataset(data.dataset_id),
+        data.version_id ? getVersion(data.version_id) : Promise.resolve(null),
+      ]);
+      if (!dataset) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Dataset ${data.dataset_id} not found`,
+        });
+      }
+      if (data.version_id && !version) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Version ${data.version_id} not found`,
+        });
+      }
+
+      const eventQueue = new EventQueue();
+
+      // A client that goes away mid-run cancels it, so no more tokens are spent
+      const controller = new AbortController();
+      reply.raw.on('close', () => {
+        if (!reply.raw.writableEnded) {
+          console.log('[API] Client disconnected, cancelling evaluation');
+          controller.abort(new CancelledError('Client disconnected'));
+        }
+      });
+
+      // Start evaluation in background; failures are reported on the stream
+      setImmediate(() => {
+        evaluationService.evaluate(data, eventQueue, controller.signal).catch((error) => {
+          if (!isCancellation(error)) {
+            console.error('[API] Evaluation error:', error);
+          }
+        });
+      });
+
+      return createSSEResponse(reply, eventQueue, {
+        type: 'evaluation_start',
+        data: { dataset_id: dataset.id, example_count: dataset.example_count },
+      });
+    } catch (error: any) {
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * GET /api/evaluations/:evaluationId
+   * Get a stored evaluation
+   */
+  server.get<{
+    Params: { evaluationId: string };
+  }>('/api/evaluations/:evaluationId', async (request, reply) => {
+    try {
+      const evaluation = await getEvaluation(request.params.evaluationId);
+
+      if (!evaluation) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: 'Evaluation not found',
+        });
+      }
+
+      return {
+        id: evaluation.id,
+        dataset_id: evaluation.dataset_id,
+        version_id: evaluation.version_id,
+        prompt: evaluation.prompt_text,
+        parameters: JSON.parse(evaluation.parameters_json),
+        metrics: normalizeMetrics(JSON.parse(evaluation.metrics_json)),
+        evaluation_details: JSON.parse(evaluation.evaluation_details),
+        judge_failures: JSON.parse(evaluation.judge_failures_json),
+        usage: evaluation.usage_json ? JSON.parse(evaluation.usage_json) : null,
+        created_at: evaluation.created_at,
+      };
+    } catch (error: any) {
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+}
@@ -4,7 +4,8 @@
  */
 
 import { FastifyInstance } from 'fastify';
-import { getAllPrompts, getVersionsByPromptId } from '../../db/crud.js';
+import { getAllPrompts, getVersionsByPromptId, type PromptStatus } from '../../db/crud.js';
+import { normalizeMetrics, type Metrics } from '../../services/evaluator.js';
 
 /**
  * History item interface
@@ -14,6 +15,7 @@ interface HistoryItem {
   original_prompt: string;
   framework: string;
   techniques: string[];
+  status: PromptStatus;
   created_at: string;
   best_score: number;
   total_iterations: number;
@@ -27,7 +29,7 @@ interface HistoryDetail extends HistoryItem {
   versions: Array<{
     iteration: number;
     prompt: string;
-    metrics: any;
+    metrics: Metrics;
     created_at: string;
   }>;
 }
@@ -71,6 +73,7 @@ export async function historyRoutes(server: FastifyInstance) {
           original_prompt: prompt.original_prompt,
           framework: prompt.selected_framework,
           techniques: JSON.parse(prompt.techniques_enabled || '[]'),
+          status: prompt.status,
           created_at: prompt.created_at,
           best_score: bestScore,
           total_iterations: versions.length,
@@ -141,6 +144,7 @@ export async function historyRoutes(server: FastifyInstance) {
         original_prompt: prompt.original_prompt,
         framework: prompt.selected_framework,
         techniques: JSON.parse(prompt.techniques_enabled || '[]'),
+        status: prompt.status,
         created_at: prompt.created_at,
         best_score: bestScore,
         total_iterations: versions.length,
@@ -148,7 +152,7 @@ export async function historyRoutes(server: FastifyInstance) {
         versions: versions.map((v) => ({
           iteration: v.iteration_number,
           prompt: v.prompt_text,
-          metrics: JSON.parse(v.metrics_json),
+          metrics: normalizeMetrics(JSON.parse(v.metrics_json)),
           created_at: v.created_at,
         })),
       };
@@ -0,0 +1,30 @@
+/**
+ * Metrics API routes
+ */
+
+import { FastifyInstance } from 'fastify';
+import { metricRegistry } from '../../services/metric-registry.js';
+// Loading the evaluator registers the built-in metrics
+import '../../services/evaluator.js';
+
+/**
+ * Register metrics routes
+ */
+export async function metricsRoutes(server: FastifyInstance) {
+  /**
+   * GET /api/metrics
+   * Get all registered metrics with their default weights
+   */
+  server.get('/api/metrics', async () => {
+    return {
+      metrics: metricRegistry.list().map((metric) => ({
+        id: metric.id,
+        name: metric.name,
+        kind: metric.kind,
+        description: metric.description,
+        weight: metric.weight,
+        default_selected: metric.defaultSelected,
+      })),
+    };
+  });
+}
@@ -3,6 +3,9 @@
  */
 
 import { FastifyInstance } from 'fastify';
+import { CancelledError, isCancellation } from '../../core/cancellation.js';
+import { getDataset } from '../../db/crud.js';
+import { evaluator } from '../../services/evaluator.js';
 import { optimizationService } from '../../services/optimization-service.js';
 import { OptimizeRequestSchema } from '../schemas/prompt.js';
 import { EventQueue, createSSEResponse } from '../../utils/streaming.js';
@@ -23,6 +26,12 @@ export async function optimizationRoutes(server: FastifyInstance) {
     try {
       // Validate request body
       const data = OptimizeRequestSchema.parse(request.body);
+      // Unknown or conflicting metric IDs are rejected before streaming starts
+      evaluator.resolveMetrics(
+        data.metrics,
+        data.custom_metrics,
+        data.evaluation_config.reference_metrics
+      );
 
       console.log('[API] Request validated:');
       console.log(`  - Prompt length: ${data.prompt.length}`);
@@ -30,14 +39,34 @@ export async function optimizationRoutes(server: FastifyInstance) {
       console.log(`  - Techniques: ${data.techniques_enabled.join(', ')}`);
       console.log(`  - Parameters:`, data.parameters);
 
+      const datasetId = data.dataset_config.dataset_id;
+      if (datasetId && !(await getDataset(datasetId))) {
+        return reply.code(404).send({
+          error: 'Not Found',
+          message: `Dataset ${datasetId} not found`,
+        });
+      }
+
       // Create event queue for SSE
       const eventQueue = new EventQueue();
 
+      // A client that goes away mid-run cancels it, so no more tokens are spent
+      const controller = new AbortController();
+      reply.raw.on('close', () => {
+        if (!reply.raw.writableEnded) {
+          console.log('[API] Client disconnected, cancelling optimization');
+          controller.abort(new CancelledError('Client disconnected'));
+        }
+      });
+
       // Start optimization in background
       setImmediate(() => {
         optimizationService
-          .optimize(data, eventQueue)
+          .optimize(data, eventQueue, controller.signal)
           .catch((error) => {
+            if (isCancellation(error)) {
+              return; // Already reported as optimization_cancelled
+            }
             console.error('[API] Optimization error:', error);
             eventQueue.push({
               type: 'error',
@@ -62,5 +91,24 @@ export async function optimizationRoutes(server: FastifyInstance) {
       });
     }
   });
+
+  /**
+   * POST /api/optimize/:promptId/cancel
+   * Cancel a running optimization; completed versions are kept
+   */
+  server.post<{
+    Params: { promptId: string };
+  }>('/api/optimize/:promptId/cancel', async (request, reply) => {
+    const { promptId } = request.params;
+
+    if (!optimizationService.cancel(promptId)) {
+      return reply.code(404).send({
+        error: 'Not Found',
+        message: `No running optimization for prompt ${promptId}`,
+      });
+    }
+
+    return { success: true, prompt_id: promptId };
+  });
 }
 
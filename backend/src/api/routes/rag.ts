@@ -11,6 +11,7 @@ const UploadDocumentSchema = z.object({
   title: z.string().min(1),
   content: z.string().min(1),
   metadata: z.record(z.any()).optional(),
+  embedding_model: z.string().min(1).optional(),
 });
 
 const SearchDocumentsSchema = z.object({
@@ -35,7 +36,8 @@ export async function ragRoutes(server: FastifyInstance) {
         data.collection_name,
         data.title,
         data.content,
-        data.metadata
+        data.metadata,
+        data.embedding_model
       );
 
       return {
@@ -3,7 +3,45 @@
  */
 
 import { FastifyInstance } from 'fastify';
-import { getVersionsByPrompt, getVersion } from '../../db/crud.js';
+import {
+  getVersionsByPrompt,
+  getVersion,
+  getPrompt,
+  getDatasetsByPrompt,
+  getExamplesByDataset,
+} from '../../db/crud.js';
+import { normalizeMetrics, type Metrics } from '../../services/evaluator.js';
+import {
+  outputsByExample,
+  tournament,
+  type TournamentEntry,
+  type TournamentExample,
+} from '../../services/tournament.js';
+import { createSeededRandom } from '../../utils/random.js';
+import { compareMetric, type ExampleScore, type MetricComparison } from '../../utils/statistics.js';
+
+/**
+ * A version's stored evaluation details, with metrics in the current shape
+ */
+function parseEvaluationDetails(
+  evaluationDetails: string | null
+): Array<{ input: string; metrics: Metrics } & Record<string, unknown>> {
+  const details: Array<{ input: string; metrics: unknown } & Record<string, unknown>> =
+    evaluationDetails ? JSON.parse(evaluationDetails) : [];
+  return details.map((detail) => ({ ...detail, metrics: normalizeMetrics(detail.metrics) }));
+}
+
+/**
+ * Per-example scores of one metric (or the aggregate) from a version's stored evaluation
+ * details (failed and unscored examples are skipped)
+ */
+function exampleScores(evaluationDetails: string | null, metric: string): ExampleScore[] {
+  return parseEvaluationDetails(evaluationDetails).flatMap((detail) => {
+    const value =
+      metric === 'aggregate_score' ? detail.metrics.aggregate_score : detail.metrics.scores[metric];
+    return typeof value === 'number' ? [{ input: detail.input, value }] : [];
+  });
+}
 
 /**
  * Register versions routes
@@ -26,15 +64,16 @@ export async function versionsRoutes(server: FastifyInstance) {
           id: v.id,
           iteration: v.iteration_number,
           prompt: v.prompt_text,
-          metrics: JSON.parse(v.metrics_json),
+          metrics: normalizeMetrics(JSON.parse(v.metrics_json)),
           evaluation_details: v.evaluation_details
-            ? JSON.parse(v.evaluation_details)
+            ? parseEvaluationDetails(v.evaluation_details)
             : null,
           techniques: v.techniques_applied
             ? JSON.parse(v.techniques_applied)
             : [],
           critique: v.critique,
           improvements: v.improvements,
+          usage: v.usage_json ? JSON.parse(v.usage_json) : null,
           created_at: v.created_at,
         })),
       };
@@ -68,8 +107,28 @@ export async function versionsRoutes(server: FastifyInstance) {
         });
       }
 
-      const metrics1 = JSON.parse(version1.metrics_json);
-      const metrics2 = JSON.parse(version2.metrics_json);
+      const metrics1 = normalizeMetrics(JSON.parse(version1.metrics_json));
+      const metrics2 = normalizeMetrics(JSON.parse(version2.metrics_json));
+      // Metrics scored for either version; a metric missing or failed on one side has an
+      // unknown delta
+      const compared = [...new Set([...Object.keys(metrics1.scores), ...Object.keys(metrics2.scores)])];
+      const delta: Record<string, number | null> = {};
+      for (const metric of compared) {
+        const a = metrics1.scores[metric] ?? null;
+        const b = metrics2.scores[metric] ?? null;
+        delta[metric] = a === null || b === null ? null : Math.round((b - a) * 10) / 10;
+      }
+      delta['aggregate_score'] = metrics2.aggregate_score - metrics1.aggregate_score;
+
+      // Seeded so repeated comparisons of the same versions report the same intervals
+      const statistics: Record<string, MetricComparison | null> = {};
+      for (const metric of [...compared, 'aggregate_score']) {
+        statistics[metric] = compareMetric(
+          exampleScores(version1.evaluation_details, metric),
+          exampleScores(version2.evaluation_details, metric),
+          createSeededRandom(`${version1Id}:${version2Id}:${metric}`)
+        );
+      }
 
       return {
         version1: {
@@ -84,14 +143,71 @@ export async function versionsRoutes(server: FastifyInstance) {
           prompt: version2.prompt_text,
           metrics: metrics2,
         },
-        delta: {
-          relevance: metrics2.relevance - metrics1.relevance,
-          accuracy: metrics2.accuracy - metrics1.accuracy,
-          consistency: metrics2.consistency - metrics1.consistency,
-          efficiency: metrics2.efficiency - metrics1.efficiency,
-          readability: metrics2.readability - metrics1.readability,
-          aggregate_score: metrics2.aggregate_score - metrics1.aggregate_score,
-        },
+        delta,
+        statistics,
+      };
+    } catch (error: any) {
+      return reply.code(500).send({
+        error: 'Internal Server Error',
+        message: error.message,
+      });
+    }
+  });
+
+  /**
+   * POST /api/versions/:promptId/tournament
+   * Rank all versions of a run by pairwise judging of their stored outputs
+   */
+  server.post<{
+    Params: { promptId: string };
+  }>('/api/versions/:promptId/tournament', async (request, reply) => {
+    try {
+      const { promptId } = request.params;
+
+      const versions = await getVersionsByPrompt(promptId);
+      if (versions.length < 2) {
+        return reply.code(400).send({
+          error: 'Bad Request',
+          message: 'A tournament needs at least two versions',
+        });
+      }
+
+      // Runs on a provided dataset reference it; generated datasets belong to the run
+      const prompt = await getPrompt(promptId);
+      const datasetId = prompt?.dataset_id ?? (await getDatasetsByPrompt(promptId))[0]?.id;
+      const rows = datasetId ? await getExamplesByDataset(datasetId) : [];
+
+      // Versions are compared on the examples they were evaluated on
+      const details = versions.map(
+        (v): Array<{ example_index?: number; input: string; output: string }> =>
+          v.evaluation_details ? JSON.parse(v.evaluation_details) : []
+      );
+
+      // Without the dataset, examples are known only by their inputs (stored indices
+      // point into a list that is gone)
+      const examples: TournamentExample[] =
+        rows.length > 0
+          ? rows.map((row) => ({ input: row.input_text, expectedOutput: row.expected_output }))
+          : [...new Set(details.flat().map((detail) => detail.input))].map((input) => ({
+              input,
+              expectedOutput: null,
+            }));
+      const entries: TournamentEntry[] = versions.map((v, i) => ({
+        id: v.id,
+        iteration: v.iteration_number,
+        outputs: outputsByExample(
+          (details[i] ?? []).map((detail) =>
+            rows.length > 0 ? detail : { input: detail.input, output: detail.output }
+          ),
+          examples
+        ),
+      }));
+
+      const result = await tournament.run(entries, examples);
+
+      return {
+        prompt_id: promptId,
+        ...result,
       };
     } catch (error: any) {
       return reply.code(500).send({
@@ -0,0 +1,34 @@
+/**
+ * Zod schemas for dataset uploads
+ */
+
+import { z } from 'zod';
+import { CriterionSchema } from '../../services/dataset-generator.js';
+
+/**
+ * Column mapping schema (example field -> CSV column or JSONL key)
+ */
+export const ColumnMappingSchema = z
+  .object({
+    input: z.string().min(1),
+    expected_output: z.string().min(1),
+    difficulty: z.string().min(1),
+    tags: z.string().min(1),
+    assertions: z.string().min(1),
+    tests: z.string().min(1),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Dataset upload schema
+ */
+export const UploadDatasetSchema = z.object({
+  format: z.enum(['csv', 'jsonl']),
+  content: z.string().min(1),
+  mapping: ColumnMappingSchema.default({}),
+  domain: z.string().min(1).max(100).optional(), // Default: "custom"
+  criteria: z.array(CriterionSchema).max(20).optional(), // Rubric criteria (default: none)
+});
+
+export type UploadDatasetRequest = z.infer<typeof UploadDatasetSchema>;
@@ -0,0 +1,42 @@
+/**
+ * Zod schemas for standalone evaluation requests
+ */
+
+import { z } from 'zod';
+import {
+  ChatMessageSchema,
+  EvaluationConfigSchema,
+  LLMParametersSchema,
+  MAX_PROMPT_LENGTH,
+  MetricConfigFields,
+  PromptFormatSchema,
+} from './prompt.js';
+
+/**
+ * Evaluate request schema
+ */
+export const EvaluateRequestSchema = z
+  .object({
+    prompt: z.string().min(1).max(MAX_PROMPT_LENGTH).optional(),
+    version_id: z.string().min(1).optional(), // Evaluate a stored version's prompt instead
+    dataset_id: z.string().min(1),
+    parameters: LLMParametersSchema.default({}),
+    evaluation_config: EvaluationConfigSchema.default({}),
+    prompt_format: PromptFormatSchema.default('plain'),
+    messages: z.array(ChatMessageSchema).max(50).default([]), // Template turns for "messages" format
+    ...MetricConfigFields,
+  })
+  .refine((data) => (data.prompt === undefined) !== (data.version_id === undefined), {
+    message: 'Exactly one of prompt or version_id is required',
+    path: ['prompt'],
+  })
+  .refine((data) => data.prompt_format !== 'messages' || data.messages.length > 0, {
+    message: 'messages is required when prompt_format is "messages"',
+    path: ['messages'],
+  })
+  .refine((data) => (data.metrics?.length ?? 1) + data.custom_metrics.length > 0, {
+    message: 'At least one metric must be selected',
+    path: ['metrics'],
+  });
+
+export type EvaluateRequest = z.infer<typeof EvaluateRequestSchema>;
@@ -5,6 +5,11 @@
 import { z } from 'zod';
 import { appConfig } from '../../config.js';
 
+/**
+ * Longest prompt (and chat message) accepted by the optimize and evaluate endpoints
+ */
+export const MAX_PROMPT_LENGTH = 100000;
+
 /**
  * Framework enum
  */
@@ -34,6 +39,19 @@ export const LLMParametersSchema = z.object({
     .default(appConfig.defaultModel),
 });
 
+/**
+ * How the optimized prompt is executed (see utils/messages.ts)
+ */
+export const PromptFormatSchema = z.enum(['plain', 'system', 'user_template', 'messages']);
+
+/**
+ * Message template turn (the optimized prompt itself is the system message)
+ */
+export const ChatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().min(1).max(MAX_PROMPT_LENGTH),
+});
+
 /**
  * Dataset configuration schema
  */
@@ -42,23 +60,106 @@ export const DatasetConfigSchema = z.object({
   difficulty_levels: z
     .array(z.enum(['easy', 'medium', 'hard']))
     .default(['easy', 'medium', 'hard']),
+  // Evaluate on a stored (e.g. uploaded) dataset instead of generating one
+  dataset_id: z.string().min(1).optional(),
 });
 
 /**
- * Optimize request schema
+ * Judge panel schema (relevance, accuracy and readability judged by several judges)
+ */
+export const JudgePanelSchema = z.object({
+  // Judge models; empty = the judging stage's model
+  models: z.array(z.string().min(1)).max(5).default([]),
+  // Verdicts sampled per model
+  samples: z.number().int().min(1).max(5).default(1),
+  aggregation: z.enum(['mean', 'median']).default('mean'),
+});
+
+/**
+ * Evaluation configuration schema
+ */
+export const EvaluationConfigSchema = z.object({
+  // Executions per example; consistency is only measured with 2 or more
+  consistency_runs: z.number().int().min(1).max(5).default(1),
+  // Ask a judge whether short answers agree, instead of relying on embeddings alone
+  consistency_llm_check: z.boolean().default(false),
+  // How the best version is picked: highest aggregate score, or a pairwise tournament
+  best_version_selection: z.enum(['aggregate', 'tournament']).default('aggregate'),
+  judge_panel: JudgePanelSchema.optional(),
+  // Deterministic metrics against each example's expected output, added to the aggregate
+  reference_metrics: z
+    .array(z.enum(['exact_match', 'token_f1', 'rouge_l', 'bleu', 'json_match']))
+    .default([]),
+  // k for pass@k on code-generation examples with test cases (capped at consistency_runs)
+  pass_k: z.number().int().min(1).max(5).default(1),
+});
+
+/**
+ * Metric selection schema (IDs as listed by GET /api/metrics)
+ */
+export const MetricSelectionSchema = z.object({
+  id: z.string().min(1),
+  weight: z.number().min(0).max(10).optional(), // Default: the metric's registered weight
+});
+
+/**
+ * Custom LLM-judge metric schema
  */
-export const OptimizeRequestSchema = z.object({
-  prompt: z.string().min(10).max(100000),
-  selected_framework: FrameworkSchema,
-  techniques_enabled: z.array(TechniqueSchema).default([]),
-  parameters: LLMParametersSchema.default({}),
-  dataset_config: DatasetConfigSchema.default({}),
-  iteration_count: z.number().int().min(1).max(3).default(1), // Configurable iterations (1-3)
+export const CustomMetricSchema = z.object({
+  id: z
+    .string()
+    .regex(/^[a-z][a-z0-9_]{0,39}$/, 'id must be lowercase letters, digits and underscores'),
+  name: z.string().min(1).max(100),
+  // Judging instructions with an {output} placeholder; {input} and {expected_output} are optional
+  prompt: z
+    .string()
+    .min(10)
+    .max(5000)
+    .refine((prompt) => prompt.includes('{output}'), 'prompt must contain {output}'),
+  weight: z.number().min(0).max(10).default(1),
 });
 
+/**
+ * Metric fields shared by optimize and evaluate requests
+ */
+export const MetricConfigFields = {
+  // Metrics to score, optionally reweighted; default: the registry's default metrics
+  metrics: z.array(MetricSelectionSchema).max(20).optional(),
+  custom_metrics: z.array(CustomMetricSchema).max(5).default([]),
+};
+
+/**
+ * Optimize request schema
+ */
+export const OptimizeRequestSchema = z
+  .object({
+    prompt: z.string().min(10).max(MAX_PROMPT_LENGTH),
+    selected_framework: FrameworkSchema,
+    techniques_enabled: z.array(TechniqueSchema).default([]),
+    parameters: LLMParametersSchema.default({}),
+    dataset_config: DatasetConfigSchema.default({}),
+    evaluation_config: EvaluationConfigSchema.default({}),
+    iteration_count: z.number().int().min(1).max(3).default(1), // Configurable iterations (1-3)
+    prompt_format: PromptFormatSchema.default('plain'),
+    messages: z.array(ChatMessageSchema).max(50).default([]), // Template turns for "messages" format
+    ...MetricConfigFields,
+  })
+  .refine((data) => data.prompt_format !== 'messages' || data.messages.length > 0, {
+    message: 'messages is required when prompt_format is "messages"',
+    path: ['messages'],
+  })
+  .refine((data) => (data.metrics?.length ?? 1) + data.custom_metrics.length > 0, {
+    message: 'At least one metric must be selected',
+    path: ['metrics'],
+  });
+
 export type OptimizeRequest = z.infer<typeof OptimizeRequestSchema>;
 export type Framework = z.infer<typeof FrameworkSchema>;
 export type Technique = z.infer<typeof TechniqueSchema>;
 export type LLMParameters = z.infer<typeof LLMParametersSchema>;
 export type DatasetConfig = z.infer<typeof DatasetConfigSchema>;
+export type EvaluationConfig = z.infer<typeof EvaluationConfigSchema>;
+export type PromptFormat = z.infer<typeof PromptFormatSchema>;
+export type MetricSelection = z.infer<typeof MetricSelectionSchema>;
+export type CustomMetric = z.infer<typeof CustomMetricSchema>;
 
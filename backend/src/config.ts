@@ -13,7 +13,12 @@ config();
  */
 const ConfigSchema = z.object({
   // LLM Provider Configuration
-  llmProvider: z.enum(['openai', 'openrouter']).default('openai'),
+  llmProvider: z
+    .enum(['openai', 'openrouter', 'anthropic', 'openai_compatible', 'ollama'])
+    .default('openai'),
+
+  // Per-model provider routing ("model-id=provider,...")
+  modelProviders: z.string().default(''),
 
   // OpenAI Configuration
   openaiApiKey: z.string().optional(),
@@ -25,6 +30,43 @@ const ConfigSchema = z.object({
   openrouterMaxPromptPrice: z.coerce.number().default(0.20), // $0.20 per 1M tokens (allows Google Vertex: $0.15)
   openrouterMaxCompletionPrice: z.coerce.number().default(1.00), // $1.00 per 1M tokens (allows Google Vertex: $0.60)
 
+  // Per-model pricing for cost accounting ("model-id=input:output,...", USD per 1M tokens)
+  modelPrices: z.string().default(''),
+
+  // Context window overrides ("model-id=context:max_output[:tokenizer],...")
+  modelCapabilities: z.string().default(''),
+
+  // Anthropic Configuration
+  anthropicApiKey: z.string().optional(),
+  anthropicBaseUrl: z.string().url().default('https://api.anthropic.com'),
+
+  // OpenAI-compatible server (vLLM, llama.cpp server, LM Studio, ...)
+  openaiCompatibleBaseUrl: z.string().url().optional(),
+  openaiCompatibleApiKey: z.string().optional(),
+
+  // Ollama Configuration
+  ollamaBaseUrl: z.string().url().default('http://localhost:11434'),
+
+  // Request scheduling (per provider, or per model when listed in LLM_RATE_LIMITS)
+  llmMaxConcurrency: z.coerce.number().int().min(1).default(4),
+  llmRequestsPerMinute: z.coerce.number().min(0).default(0), // 0 = unlimited
+  llmTokensPerMinute: z.coerce.number().min(0).default(0), // 0 = unlimited
+  llmRateLimits: z.string().default(''), // "provider-or-model=concurrency:rpm:tpm,..."
+
+  // Record/replay of LLM calls
+  llmCassetteMode: z.enum(['off', 'record', 'replay']).default('off'),
+  llmCassettePath: z.string().default('./data/cassettes/default.json'),
+
+  // Completion cache for deterministic (low-temperature) calls
+  completionCacheEnabled: z
+    .enum(['true', 'false'])
+    .default('true')
+    .transform((value) => value === 'true'),
+  completionCacheTtlSeconds: z.coerce.number().int().min(0).default(604800), // 7 days, 0 = no expiry
+  completionCacheMaxEntries: z.coerce.number().int().min(1).default(5000),
+  completionCacheMaxMb: z.coerce.number().min(1).default(100),
+  completionCacheMaxTemperature: z.coerce.number().min(0).max(2).default(0.2),
+
   // Server Configuration
   port: z.coerce.number().int().min(1000).max(65535).default(8000),
   nodeEnv: z.enum(['development', 'production', 'test']).default('development'),
@@ -37,6 +79,8 @@ const ConfigSchema = z.object({
 
   // ChromaDB Configuration
   chromaPath: z.string().default('./data/chroma'),
+  // Embedding model for new RAG collections ("local:hashing" needs no outside service)
+  embeddingModel: z.string().default('text-embedding-ada-002'),
 
   // Application Configuration
   appName: z.string().default('PowerPrompts'),
@@ -45,6 +89,20 @@ const ConfigSchema = z.object({
   // LLM Models Configuration
   availableModels: z.string().default(''),
   defaultModel: z.string().default('openai/gpt-4o'),
+
+  // Per-stage model chains ("primary,fallback,..."); empty = the run's requested model
+  modelDatasetGeneration: z.string().default(''),
+  modelFrameworkBuilding: z.string().default(''),
+  modelExecution: z.string().default(''),
+  modelJudging: z.string().default(''),
+  modelRsip: z.string().default(''),
+
+  // Evaluation: share of examples (0-1) a judged metric may fail on before the iteration fails
+  judgeFailureThreshold: z.coerce.number().min(0).max(1).default(0.5),
+
+  // Code execution sandbox for code-generation datasets (per snippet time, worker heap)
+  codeExecutionTimeoutMs: z.coerce.number().int().min(10).default(2000),
+  codeExecutionMemoryMb: z.coerce.number().int().min(8).default(64),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -66,28 +124,68 @@ function loadConfig(): Config {
   try {
     const config = ConfigSchema.parse({
       llmProvider: process.env['LLM_PROVIDER'],
+      modelProviders: process.env['MODEL_PROVIDERS'],
       openaiApiKey: process.env['OPENAI_API_KEY'],
       openrouterApiKey: process.env['OPENROUTER_API_KEY'],
       openrouterMaxPromptPrice: process.env['OPENROUTER_MAX_PROMPT_PRICE'],
       openrouterMaxCompletionPrice: process.env['OPENROUTER_MAX_COMPLETION_PRICE'],
+      modelPrices: process.env['MODEL_PRICES'],
+      modelCapabilities: process.env['MODEL_CAPABILITIES'],
+      anthropicApiKey: process.env['ANTHROPIC_API_KEY'],
+      anthropicBaseUrl: process.env['ANTHROPIC_BASE_URL'],
+      openaiCompatibleBaseUrl: process.env['OPENAI_COMPATIBLE_BASE_URL'],
+      openaiCompatibleApiKey: process.env['OPENAI_COMPATIBLE_API_KEY'],
+      ollamaBaseUrl: process.env['OLLAMA_BASE_URL'],
+      llmMaxConcurrency: process.env['LLM_MAX_CONCURRENCY'],
+      llmRequestsPerMinute: process.env['LLM_REQUESTS_PER_MINUTE'],
+      llmTokensPerMinute: process.env['LLM_TOKENS_PER_MINUTE'],
+      llmRateLimits: process.env['LLM_RATE_LIMITS'],
+      llmCassetteMode: process.env['LLM_CASSETTE_MODE'],
+      llmCassettePath: process.env['LLM_CASSETTE_PATH'],
+      completionCacheEnabled: process.env['COMPLETION_CACHE_ENABLED'],
+      completionCacheTtlSeconds: process.env['COMPLETION_CACHE_TTL_SECONDS'],
+      completionCacheMaxEntries: process.env['COMPLETION_CACHE_MAX_ENTRIES'],
+      completionCacheMaxMb: process.env['COMPLETION_CACHE_MAX_MB'],
+      completionCacheMaxTemperature: process.env['COMPLETION_CACHE_MAX_TEMPERATURE'],
       port: process.env['PORT'],
       nodeEnv: process.env['NODE_ENV'],
       databasePath: process.env['DATABASE_PATH'],
       apiKey: process.env['API_KEY'],
       chromaPath: process.env['CHROMA_PATH'],
+      embeddingModel: process.env['EMBEDDING_MODEL'],
       appName: process.env['APP_NAME'],
       appVersion: process.env['APP_VERSION'],
       availableModels: process.env['AVAILABLE_MODELS'],
       defaultModel: process.env['DEFAULT_MODEL'],
+      modelDatasetGeneration: process.env['MODEL_DATASET_GENERATION'],
+      modelFrameworkBuilding: process.env['MODEL_FRAMEWORK_BUILDING'],
+      modelExecution: process.env['MODEL_EXECUTION'],
+      modelJudging: process.env['MODEL_JUDGING'],
+      modelRsip: process.env['MODEL_RSIP'],
+      judgeFailureThreshold: process.env['JUDGE_FAILURE_THRESHOLD'],
+      codeExecutionTimeoutMs: process.env['CODE_EXECUTION_TIMEOUT_MS'],
+      codeExecutionMemoryMb: process.env['CODE_EXECUTION_MEMORY_MB'],
     });
 
     // Validate that the correct API key is set for the provider
+    // (replayed runs never reach a provider, so keys are optional there)
+    if (config.llmCassetteMode === 'replay') {
+      return config;
+    }
     if (config.llmProvider === 'openai' && !config.openaiApiKey) {
       throw new Error('OPENAI_API_KEY is required when LLM_PROVIDER is set to "openai"');
     }
     if (config.llmProvider === 'openrouter' && !config.openrouterApiKey) {
       throw new Error('OPENROUTER_API_KEY is required when LLM_PROVIDER is set to "openrouter"');
     }
+    if (config.llmProvider === 'anthropic' && !config.anthropicApiKey) {
+      throw new Error('ANTHROPIC_API_KEY is required when LLM_PROVIDER is set to "anthropic"');
+    }
+    if (config.llmProvider === 'openai_compatible' && !config.openaiCompatibleBaseUrl) {
+      throw new Error(
+        'OPENAI_COMPATIBLE_BASE_URL is required when LLM_PROVIDER is set to "openai_compatible"'
+      );
+    }
 
     return config;
   } catch (error) {
@@ -198,6 +296,9 @@ function generateModelDescription(modelId: string): string {
 function generateModelCategory(modelId: string): string {
   const modelName = modelId.includes('/') ? modelId.split('/')[1] || modelId : modelId;
   
+  // Self-hosted models routed to a local provider
+  if (modelId.startsWith('ollama:') || modelId.startsWith('openai_compatible:')) return 'Local';
+  
   if (modelName.includes('gpt-oss-120b')) return 'Open-Source';
   if (modelName.includes('gpt-5')) return 'Flagship';
   if (modelName.includes('gpt-4')) return 'GPT-4';
@@ -0,0 +1,21 @@
+/**
+ * Cancellation of running pipelines
+ */
+
+/**
+ * Abort reason used when a run is cancelled (explicitly or by client disconnect)
+ * LLMClient never retries it and services let it propagate instead of falling back
+ */
+export class CancelledError extends Error {
+  constructor(message: string = 'Operation cancelled') {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Whether an error was caused by cancellation
+ */
+export function isCancellation(error: unknown, signal?: AbortSignal): boolean {
+  return error instanceof CancelledError || !!signal?.aborted;
+}
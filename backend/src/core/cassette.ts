@@ -0,0 +1,165 @@
+/**
+ * Record/replay cassettes for LLM and embedding calls
+ *
+ * In "record" mode every request/response pair is written to a JSON file keyed by a
+ * hash of the model, messages and parameters. In "replay" mode responses are served
+ * from that file with no network access, which makes pipeline runs reproducible.
+ */
+
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { hashRequest } from '../utils/hashing.js';
+
+/**
+ * Cassette operating mode
+ */
+export type CassetteMode = 'off' | 'record' | 'replay';
+
+/**
+ * Kind of call stored in a cassette
+ */
+export type CassetteCallKind = 'completion' | 'embedding';
+
+/**
+ * Single recorded interaction
+ */
+export interface CassetteEntry {
+  kind: CassetteCallKind;
+  request: unknown;
+  response: unknown;
+  recorded_at: string;
+}
+
+/**
+ * On-disk cassette format
+ */
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+/**
+ * Raised in replay mode when a request was never recorded
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly kind: CassetteCallKind,
+    public readonly key: string,
+    cassettePath: string
+  ) {
+    super(
+      `No recorded ${kind} for request ${key.slice(0, 12)} in cassette ${cassettePath}. ` +
+        'Re-record the cassette with LLM_CASSETTE_MODE=record.'
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Cassette class backed by a JSON file
+ */
+export class Cassette {
+  /** Shared by every caller, so concurrent first calls read the file once */
+  private loadPromise: Promise<Record<string, CassetteEntry>> | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(
+    public readonly mode: CassetteMode,
+    public readonly path: string
+  ) {}
+
+  /**
+   * Whether calls are intercepted at all
+   */
+  isActive(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Key for a request (kind + hash of the normalized payload)
+   */
+  key(kind: CassetteCallKind, request: unknown): string {
+    return hashRequest({ kind, request });
+  }
+
+  /**
+   * Look up a recorded response
+   * Throws CassetteMissError in replay mode when nothing was recorded
+   */
+  async lookup<T>(kind: CassetteCallKind, request: unknown): Promise<T | undefined> {
+    if (this.mode !== 'replay') {
+      return undefined;
+    }
+
+    const entries = await this.load();
+    const key = this.key(kind, request);
+    const entry = entries[key];
+
+    if (!entry) {
+      throw new CassetteMissError(kind, key, this.path);
+    }
+
+    console.log(`[CASSETTE] Replaying ${kind} ${key.slice(0, 12)}`);
+    return entry.response as T;
+  }
+
+  /**
+   * Record a response (no-op unless in record mode)
+   */
+  async record(kind: CassetteCallKind, request: unknown, response: unknown): Promise<void> {
+    if (this.mode !== 'record') {
+      return;
+    }
+
+    const entries = await this.load();
+    const key = this.key(kind, request);
+    entries[key] = {
+      kind,
+      request,
+      response,
+      recorded_at: new Date().toISOString(),
+    };
+
+    // Serialize writes so concurrent calls never interleave on disk
+    this.writeChain = this.writeChain.then(() => this.save());
+    await this.writeChain;
+  }
+
+  /**
+   * Load entries from disk (once)
+   */
+  private load(): Promise<Record<string, CassetteEntry>> {
+    this.loadPromise ??= this.read();
+    return this.loadPromise;
+  }
+
+  /**
+   * Read entries from disk
+   */
+  private async read(): Promise<Record<string, CassetteEntry>> {
+    if (existsSync(this.path)) {
+      const file = JSON.parse(await readFile(this.path, 'utf-8')) as CassetteFile;
+      const entries = file.entries || {};
+      console.log(`[CASSETTE] Loaded ${Object.keys(entries).length} entries from ${this.path}`);
+      return entries;
+    }
+    if (this.mode === 'replay') {
+      throw new Error(`Cassette file not found: ${this.path}`);
+    }
+    return {};
+  }
+
+  /**
+   * Write entries to disk
+   */
+  private async save(): Promise<void> {
+    const dir = dirname(this.path);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const file: CassetteFile = { version: 1, entries: await this.load() };
+    await writeFile(this.path, JSON.stringify(file, null, 2));
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Content-addressed completion cache
+ *
+ * Responses of deterministic calls (low temperature, or explicitly opted in) are stored
+ * in SQLite keyed by a hash of the model, messages and parameters, so repeated judge
+ * calls and framework builds are served without reaching the provider.
+ */
+
+import { appConfig } from '../config.js';
+import {
+  clearCacheEntries,
+  deleteCacheEntries,
+  getCacheEntriesByAccess,
+  getCacheEntry,
+  getCacheTotals,
+  getExpiredCacheEntries,
+  touchCacheEntries,
+  upsertCacheEntry,
+} from '../db/crud.js';
+import { hashRequest } from '../utils/hashing.js';
+import type { CompletionRequest, CompletionResponse } from './providers/index.js';
+
+/**
+ * Hit counts and access times are written at most this often
+ * (every write rewrites the whole database file)
+ */
+const FLUSH_INTERVAL_MS = 30_000;
+
+/**
+ * Eviction runs once per this many stores, so the limits may be overshot by as many entries
+ */
+const EVICTION_INTERVAL = 20;
+
+/**
+ * Cache limits and policy
+ */
+export interface CompletionCacheOptions {
+  enabled: boolean;
+  ttlSeconds: number;
+  maxEntries: number;
+  maxBytes: number;
+  maxTemperature: number;
+}
+
+/**
+ * Cache statistics (hit/miss counters cover the current process)
+ */
+export interface CompletionCacheStats {
+  enabled: boolean;
+  entries: number;
+  size_bytes: number;
+  max_entries: number;
+  max_bytes: number;
+  ttl_seconds: number;
+  max_temperature: number;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  tokens_saved: number;
+  lifetime_hits: number;
+}
+
+/**
+ * Completion cache class backed by the completion_cache table
+ */
+export class CompletionCache {
+  private hits = 0;
+  private misses = 0;
+  private tokensSaved = 0;
+  /** Hits not yet written to the table, by key */
+  private pendingTouches = new Map<string, { hits: number; lastAccessedAt: string }>();
+  private flushTimer: NodeJS.Timeout | undefined;
+  private storesSinceEviction = 0;
+
+  constructor(private readonly options: CompletionCacheOptions) {}
+
+  /**
+   * Whether a request should go through the cache
+   * An explicit per-call flag wins; otherwise only low-temperature calls are cached
+   */
+  shouldCache(request: CompletionRequest, optIn?: boolean): boolean {
+    if (!this.options.enabled || optIn === false) {
+      return false;
+    }
+
+    return optIn === true || request.temperature <= this.options.maxTemperature;
+  }
+
+  /**
+   * Cache key for a request (the model ID as requested, before provider routing)
+   */
+  key(request: CompletionRequest): string {
+    return hashRequest(request);
+  }
+
+  /**
+   * Look up a cached response
+   * Cache failures are logged and treated as misses so they never break a call
+   */
+  async get(request: CompletionRequest): Promise<CompletionResponse | undefined> {
+    const key = this.key(request);
+
+    try {
+      const entry = await getCacheEntry(key);
+      const now = new Date().toISOString();
+
+      // Expired entries are removed by the next eviction
+      if (!entry || (entry.expires_at && entry.expires_at <= now)) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.touch(key, now);
+
+      const response = JSON.parse(entry.response_json) as CompletionResponse;
+      this.hits++;
+      this.tokensSaved += response.usage?.totalTokens || 0;
+
+      console.log(`[COMPLETION CACHE] Hit ${key.slice(0, 12)} (${request.model})`);
+      return response;
+    } catch (error) {
+      console.error('[COMPLETION CACHE ERROR] Lookup failed:', error);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response; every EVICTION_INTERVAL stores, enforce the size limits
+   */
+  async set(request: CompletionRequest, response: CompletionResponse): Promise<void> {
+    const expiresAt =
+      this.options.ttlSeconds > 0
+        ? new Date(Date.now() + this.options.ttlSeconds * 1000).toISOString()
+        : null;
+
+    try {
+      await upsertCacheEntry({
+        key: this.key(request),
+        model: request.model,
+        response,
+        expiresAt,
+      });
+      if (++this.storesSinceEviction >= EVICTION_INTERVAL) {
+        this.storesSinceEviction = 0;
+        await this.evict();
+      }
+    } catch (error) {
+      console.error('[COMPLETION CACHE ERROR] Store failed:', error);
+    }
+  }
+
+  /**
+   * Drop expired entries, then least recently used ones until within limits
+   */
+  async evict(): Promise<void> {
+    // Least recently used order needs the pending access times
+    await this.flush();
+
+    const totals = await getCacheTotals();
+    let entries = totals.entries;
+    let sizeBytes = totals.size_bytes;
+    const withinLimits = () =>
+      entries <= this.options.maxEntries && sizeBytes <= this.options.maxBytes;
+
+    const evicted = new Set<string>();
+    const drop = (entry: { key: string; size_bytes: number }) => {
+      evicted.add(entry.key);
+      entries--;
+      sizeBytes -= entry.size_bytes;
+    };
+
+    for (const entry of await getExpiredCacheEntries(new Date().toISOString())) {
+      drop(entry);
+    }
+    if (!withinLimits()) {
+      for (const entry of await getCacheEntriesByAccess()) {
+        if (withinLimits()) break;
+        if (!evicted.has(entry.key)) drop(entry);
+      }
+    }
+
+    if (evicted.size === 0) {
+      return;
+    }
+
+    await deleteCacheEntries([...evicted]);
+    console.log(`[COMPLETION CACHE] Evicted ${evicted.size} entries`);
+  }
+
+  /**
+   * Write the pending hit counts and access times in one transaction
+   */
+  async flush(): Promise<void> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    if (this.pendingTouches.size === 0) {
+      return;
+    }
+
+    const touches = [...this.pendingTouches].map(([key, touch]) => ({ key, ...touch }));
+    this.pendingTouches = new Map();
+
+    try {
+      await touchCacheEntries(touches);
+    } catch (error) {
+      console.error('[COMPLETION CACHE ERROR] Flush failed:', error);
+    }
+  }
+
+  /**
+   * Current cache statistics
+   */
+  async stats(): Promise<CompletionCacheStats> {
+    await this.flush();
+    const totals = await getCacheTotals();
+    const lookups = this.hits + this.misses;
+
+    return {
+      enabled: this.options.enabled,
+      entries: totals.entries,
+      size_bytes: totals.size_bytes,
+      max_entries: this.options.maxEntries,
+      max_bytes: this.options.maxBytes,
+      ttl_seconds: this.options.ttlSeconds,
+      max_temperature: this.options.maxTemperature,
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups > 0 ? this.hits / lookups : 0,
+      tokens_saved: this.tokensSaved,
+      lifetime_hits: totals.hit_count,
+    };
+  }
+
+  /**
+   * Remove every entry and reset the counters
+   * Returns the number of entries removed
+   */
+  async clear(): Promise<number> {
+    clearTimeout(this.flushTimer);
+    this.flushTimer = undefined;
+    this.pendingTouches.clear();
+    this.storesSinceEviction = 0;
+
+    const removed = await clearCacheEntries();
+    this.hits = 0;
+    this.misses = 0;
+    this.tokensSaved = 0;
+
+    console.log(`[COMPLETION CACHE] Cleared ${removed} entries`);
+    return removed;
+  }
+
+  /**
+   * Record a hit in memory and schedule the flush that writes it
+   */
+  private touch(key: string, lastAccessedAt: string): void {
+    const pending = this.pendingTouches.get(key);
+    this.pendingTouches.set(key, { hits: (pending?.hits ?? 0) + 1, lastAccessedAt });
+
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+      // Pending hits never keep the process alive
+      this.flushTimer.unref();
+    }
+  }
+}
+
+/**
+ * Global completion cache instance
+ */
+export const completionCache = new CompletionCache({
+  enabled: appConfig.completionCacheEnabled,
+  ttlSeconds: appConfig.completionCacheTtlSeconds,
+  maxEntries: appConfig.completionCacheMaxEntries,
+  maxBytes: appConfig.completionCacheMaxMb * 1024 * 1024,
+  maxTemperature: appConfig.completionCacheMaxTemperature,
+});
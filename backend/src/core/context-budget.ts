@@ -0,0 +1,79 @@
+/**
+ * Context-window budgeting
+ * Fits requests into the target model's window before they are sent: the output budget
+ * is clamped to what is left, and retrieved context is trimmed to a token budget.
+ */
+
+import { getModelCapabilities } from './model-capabilities.js';
+
+/**
+ * Smallest output budget worth sending a request for
+ */
+export const MIN_OUTPUT_TOKENS = 256;
+
+/**
+ * Raised before sending a request whose prompt leaves no room for output
+ */
+export class ContextWindowError extends Error {
+  constructor(
+    message: string,
+    public readonly model: string,
+    public readonly promptTokens: number,
+    public readonly contextWindow: number
+  ) {
+    super(message);
+    this.name = 'ContextWindowError';
+  }
+}
+
+/**
+ * Output budget for a call: the requested maxTokens, clamped to the model's output
+ * limit and to the room left in its context window
+ */
+export function fitMaxTokens(model: string, promptTokens: number, requested: number): number {
+  const { contextWindow, maxOutputTokens } = getModelCapabilities(model);
+  const available = contextWindow - promptTokens;
+
+  if (available < Math.min(MIN_OUTPUT_TOKENS, requested)) {
+    throw new ContextWindowError(
+      `Prompt is ${promptTokens} tokens, which leaves no room for output in the ${contextWindow}-token context window of ${model}`,
+      model,
+      promptTokens,
+      contextWindow
+    );
+  }
+
+  return Math.min(requested, maxOutputTokens, available);
+}
+
+/**
+ * Tokens left for retrieved context in a prompt: the model's window minus the prompt and
+ * the output budget it will be called with
+ */
+export function contextBudget(model: string, promptTokens: number, requestedOutput: number): number {
+  const { contextWindow, maxOutputTokens } = getModelCapabilities(model);
+  return Math.max(0, contextWindow - promptTokens - Math.min(requestedOutput, maxOutputTokens));
+}
+
+/**
+ * Pick the most relevant chunks (lowest distance first) that fit in a token budget
+ * Chunks that don't fit are skipped so a smaller, less relevant one can still be used
+ */
+export function selectContextChunks<T extends { text: string; distance: number }>(
+  chunks: T[],
+  maxTokens: number,
+  countTokens: (text: string) => number
+): T[] {
+  const selected: T[] = [];
+  let used = 0;
+
+  for (const chunk of [...chunks].sort((a, b) => a.distance - b.distance)) {
+    const tokens = countTokens(chunk.text);
+    if (used + tokens > maxTokens) continue;
+
+    selected.push(chunk);
+    used += tokens;
+  }
+
+  return selected;
+}
@@ -0,0 +1,137 @@
+/**
+ * Embedding providers for RAG
+ *
+ * A model ID selects the provider: "local:hashing[-<dimensions>]" embeds in-process with
+ * feature hashing (no outside service); anything else is an LLM provider embedding model
+ * routed through llmClient.embed (e.g. "text-embedding-3-small", "ollama:nomic-embed-text").
+ */
+
+import { createHash } from 'crypto';
+import { llmClient, type CallContext } from './llm-client.js';
+import type { PipelineStage } from './stages.js';
+
+/**
+ * Call context for embedding requests (stage attributes usage)
+ */
+export type EmbeddingContext = CallContext & { stage?: PipelineStage };
+
+/**
+ * Turns texts into vectors; all vectors of one provider share a dimension
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  embed(texts: string[], context?: EmbeddingContext): Promise<number[][]>;
+}
+
+/**
+ * Prefix of in-process embedding models
+ */
+export const LOCAL_EMBEDDING_PREFIX = 'local:';
+
+const DEFAULT_HASHING_DIMENSIONS = 512;
+
+/**
+ * Embeddings from an LLM provider's embedding endpoint
+ */
+class ProviderEmbeddingProvider implements EmbeddingProvider {
+  constructor(readonly model: string) {}
+
+  async embed(texts: string[], context: EmbeddingContext = {}): Promise<number[][]> {
+    return Promise.all(texts.map((text) => llmClient.embed(text, { ...context, model: this.model })));
+  }
+}
+
+/**
+ * Feature-hashing embeddings computed in-process
+ * Word unigrams and bigrams are hashed into a fixed number of signed buckets, weighted by
+ * log term frequency and L2-normalized, so cosine distance reflects shared vocabulary.
+ */
+class HashingEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly model: string,
+    private readonly dimensions: number
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    const counts = new Map<string, number>();
+
+    words.forEach((word, i) => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+      const next = words[i + 1];
+      if (next) {
+        const bigram = `${word} ${next}`;
+        counts.set(bigram, (counts.get(bigram) || 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const digest = createHash('md5').update(feature).digest();
+      const bucket = digest.readUInt32LE(0) % this.dimensions;
+      // The sign bit spreads colliding features instead of letting them pile up
+      const sign = (digest[4] ?? 0) & 1 ? -1 : 1;
+      vector[bucket] = (vector[bucket] ?? 0) + sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
+
+/**
+ * Build the provider for a local model ID ("local:hashing" or "local:hashing-1024")
+ */
+function createLocalProvider(model: string): EmbeddingProvider {
+  const match = model.slice(LOCAL_EMBEDDING_PREFIX.length).match(/^hashing(?:-(\d+))?$/);
+  if (!match) {
+    throw new Error(`Unknown local embedding model "${model}" (expected local:hashing[-<dimensions>])`);
+  }
+
+  const dimensions = match[1] ? Number(match[1]) : DEFAULT_HASHING_DIMENSIONS;
+  if (dimensions < 16 || dimensions > 8192) {
+    throw new Error(`Hashing embedding dimensions must be between 16 and 8192, got ${dimensions}`);
+  }
+
+  return new HashingEmbeddingProvider(model, dimensions);
+}
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Get the (cached) embedding provider for a model ID
+ */
+export function getEmbeddingProvider(model: string): EmbeddingProvider {
+  let provider = providers.get(model);
+  if (!provider) {
+    provider = model.startsWith(LOCAL_EMBEDDING_PREFIX)
+      ? createLocalProvider(model)
+      : new ProviderEmbeddingProvider(model);
+    providers.set(model, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is all zeros)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
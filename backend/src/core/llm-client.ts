@@ -1,11 +1,32 @@
 /**
- * LLM Client with support for OpenAI and OpenRouter
+ * LLM Client with pluggable provider adapters
+ * (OpenAI, OpenRouter, Anthropic, OpenAI-compatible servers, Ollama)
  * Handles retry logic and error handling
  */
 
-import OpenAI from 'openai';
-import { encoding_for_model, type TiktokenModel } from 'tiktoken';
+import type { z } from 'zod';
 import { appConfig } from '../config.js';
+import { Cassette } from './cassette.js';
+import { fitMaxTokens } from './context-budget.js';
+import { isCancellation } from './cancellation.js';
+import { CompletionCache, completionCache } from './completion-cache.js';
+import { foldSystemMessages } from '../utils/messages.js';
+import {
+  resolveModel,
+  type ChatMessage,
+  type CompletionRequest,
+  type CompletionResponse,
+  type EmbeddingResponse,
+  type ProviderCapabilities,
+  type TokenUsage,
+} from './providers/index.js';
+import { getModelCapabilities } from './model-capabilities.js';
+import { describeStageModels, getModelChain } from './model-router.js';
+import { countEncodingTokens } from './providers/tokenizer.js';
+import { RequestScheduler, requestScheduler } from './scheduler.js';
+import type { PipelineStage } from './stages.js';
+import { StructuredOutputError, extractJson, formatZodIssues } from './structured.js';
+import type { UsageTracker } from './usage.js';
 
 /**
  * Retry configuration
@@ -25,68 +46,313 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
 };
 
 /**
- * LLM Client class for OpenAI and OpenRouter interactions
+ * Upper bound for honoring a provider's Retry-After
+ */
+const MAX_RETRY_AFTER_MS = 60000;
+
+/**
+ * Tokens a chat API adds per message (role and delimiters)
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * Per-run context threaded from the pipeline down to every LLM call
+ */
+export interface CallContext {
+  /** Receives token usage of every call made under this context */
+  usage?: UsageTracker;
+  /** Cancels pending and in-flight calls when the run is aborted */
+  signal?: AbortSignal;
+  /** Model requested for the run; used by stages without their own model chain */
+  runModel?: string;
+}
+
+/**
+ * Options accepted by completion calls
+ */
+export interface CompletionOptions extends CallContext {
+  /** Pipeline stage the call is attributed to for usage accounting */
+  stage?: PipelineStage;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  /**
+   * Force (true) or skip (false) the completion cache
+   * By default only low-temperature calls are cached
+   */
+  cache?: boolean;
+  /** Request a JSON object response where the provider supports it */
+  jsonMode?: boolean;
+}
+
+/**
+ * Options for schema-validated completions
+ */
+export interface StructuredOptions extends CompletionOptions {
+  /** Total attempts, including repair attempts after invalid output */
+  maxAttempts?: number;
+}
+
+/**
+ * Callbacks for streamed completions
+ */
+export interface StreamHandlers {
+  /** Called with each text fragment as it arrives */
+  onToken: (delta: string) => void;
+  /** Called before a retry restarts the stream, so listeners can discard partial text */
+  onRetry?: () => void;
+}
+
+/**
+ * LLM Client class routing each model ID to its provider adapter
  */
 export class LLMClient {
-  private client: OpenAI;
   private retryConfig: RetryConfig;
-
-  constructor(retryConfig: Partial<RetryConfig> = {}) {
-    // Configure client based on provider
-    if (appConfig.llmProvider === 'openrouter') {
-      console.log('[LLM CLIENT] Initializing OpenRouter client');
-      this.client = new OpenAI({
-        baseURL: 'https://openrouter.ai/api/v1',
-        apiKey: appConfig.openrouterApiKey,
-        defaultHeaders: {
-          'HTTP-Referer': 'https://powerprompts.app', // Optional for OpenRouter rankings
-          'X-Title': 'PowerPrompts', // Optional for OpenRouter rankings
-        },
-      });
-    } else {
-      console.log('[LLM CLIENT] Initializing OpenAI client');
-      this.client = new OpenAI({
-        apiKey: appConfig.openaiApiKey,
-      });
+  private cassette: Cassette;
+  private cache: CompletionCache;
+  private scheduler: RequestScheduler;
+
+  constructor(
+    retryConfig: Partial<RetryConfig> = {},
+    cassette: Cassette = new Cassette(appConfig.llmCassetteMode, appConfig.llmCassettePath),
+    cache: CompletionCache = completionCache,
+    scheduler: RequestScheduler = requestScheduler
+  ) {
+    console.log(`[LLM CLIENT] Default provider: ${appConfig.llmProvider}`);
+    if (cassette.isActive()) {
+      console.log(`[LLM CLIENT] Cassette ${cassette.mode} mode: ${cassette.path}`);
+    }
+    const stageModels = describeStageModels();
+    if (stageModels) {
+      console.log(`[LLM CLIENT] Stage models: ${stageModels}`);
     }
 
     this.retryConfig = {
       ...DEFAULT_RETRY_CONFIG,
       ...retryConfig,
     };
+    this.cassette = cassette;
+    this.cache = cache;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * Swap the cassette (e.g. per test or demo run)
+   */
+  useCassette(cassette: Cassette): void {
+    this.cassette = cassette;
+  }
+
+  /**
+   * Whether calls are being recorded or replayed
+   * Callers use this to make otherwise random choices reproducible
+   */
+  isCassetteActive(): boolean {
+    return this.cassette.isActive();
   }
 
   /**
    * Complete a prompt with exponential backoff retry
    */
-  async complete(
+  async complete(prompt: string, options: CompletionOptions = {}): Promise<string> {
+    return this.runCompletion([{ role: 'user', content: prompt }], options);
+  }
+
+  /**
+   * Complete a prompt, streaming text fragments to handlers as they arrive
+   * Providers without streaming support deliver the full text as a single fragment
+   */
+  async completeStream(
     prompt: string,
-    options: {
-      model?: string;
-      temperature?: number;
-      maxTokens?: number;
-      topP?: number;
-      stop?: string[];
-    } = {}
+    handlers: StreamHandlers,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    return this.runCompletion([{ role: 'user', content: prompt }], options, handlers);
+  }
+
+  /**
+   * Complete a chat conversation (system prompt, multi-turn history)
+   */
+  async completeMessages(
+    messages: ChatMessage[],
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    return this.runCompletion(messages, options);
+  }
+
+  /**
+   * Complete a chat conversation, streaming text fragments to handlers
+   */
+  async completeMessagesStream(
+    messages: ChatMessage[],
+    handlers: StreamHandlers,
+    options: CompletionOptions = {}
+  ): Promise<string> {
+    return this.runCompletion(messages, options, handlers);
+  }
+
+  /**
+   * Complete a prompt whose response must match a zod schema
+   * Uses JSON mode where available; invalid output is sent back to the model together
+   * with the validation errors for repair, and a StructuredOutputError is thrown once
+   * maxAttempts is exhausted
+   */
+  async completeStructured<S extends z.ZodTypeAny>(
+    prompt: string,
+    schema: S,
+    options: StructuredOptions = {}
+  ): Promise<z.output<S>> {
+    const { maxAttempts = 3, ...completionOptions } = options;
+    const messages: ChatMessage[] = [{ role: 'user', content: prompt }];
+    let issues: string[] = [];
+    let response = '';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      response = await this.runCompletion(messages, { ...completionOptions, jsonMode: true });
+
+      let parsed: unknown;
+      try {
+        parsed = extractJson(response);
+      } catch (error: any) {
+        issues = [`Response is not valid JSON: ${error.message}`];
+      }
+
+      if (parsed !== undefined) {
+        const result = schema.safeParse(parsed);
+        if (result.success) {
+          return result.data;
+        }
+        issues = formatZodIssues(result.error);
+      }
+
+      console.warn(
+        `[LLM CLIENT] Structured output invalid (attempt ${attempt}/${maxAttempts}):`,
+        issues.slice(0, 5)
+      );
+
+      // Ask the model to repair its own output
+      messages.push(
+        { role: 'assistant', content: response },
+        {
+          role: 'user',
+          content: `Your response did not match the required format:\n${issues
+            .slice(0, 20)
+            .map((issue) => `- ${issue}`)
+            .join('\n')}\n\nRespond again with only the corrected JSON, no other text.`,
+        }
+      );
+    }
+
+    throw new StructuredOutputError(
+      `Model output did not match the expected schema after ${maxAttempts} attempts: ${issues
+        .slice(0, 3)
+        .join('; ')}`,
+      maxAttempts,
+      issues,
+      response
+    );
+  }
+
+  /**
+   * Shared completion path
+   * Walks the stage's model chain (see model-router), falling back to the next model when
+   * one fails after retries or returns nothing. An explicit options.model pins the call.
+   */
+  private async runCompletion(
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    handlers?: StreamHandlers
+  ): Promise<string> {
+    const chain = options.model ? [options.model] : getModelChain(options.stage, options.runModel);
+    let lastError: unknown = null;
+
+    for (const [index, model] of chain.entries()) {
+      try {
+        return await this.completeWithModel(model, messages, options, handlers);
+      } catch (error) {
+        if (isCancellation(error, options.signal)) {
+          throw error;
+        }
+        lastError = error;
+
+        const next = chain[index + 1];
+        if (next) {
+          console.warn(
+            `[LLM CLIENT] ${model} failed for ${options.stage || 'other'}, falling back to ${next}:`,
+            error instanceof Error ? error.message : error
+          );
+          // Partial streamed output from the failed model is discarded
+          handlers?.onRetry?.();
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Completion on one model (cassette, cache, scheduled provider call, retries)
+   */
+  private async completeWithModel(
+    model: string,
+    messages: ChatMessage[],
+    options: CompletionOptions,
+    handlers?: StreamHandlers
   ): Promise<string> {
     const {
-      model = appConfig.defaultModel,
       temperature = 0.7,
       maxTokens = 16000, // Increased default for modern models (GPT-5: 128K, GPT-4: 16K)
       topP = 1.0,
       stop,
+      stage,
+      usage,
+      cache,
+      signal,
+      jsonMode,
     } = options;
 
-    // OpenRouter Provider Preferences: Optimize for high throughput + mid-price
-    // Targets providers like Google Vertex, Groq, SambaNova that have excellent throughput/price ratio
-    const providerPreferences = appConfig.llmProvider === 'openrouter' ? {
-      sort: 'throughput', // Prioritize high throughput (Google Vertex: 547.8 TPS, Groq: 674.3 TPS)
-      allow_fallbacks: true, // Allow backup providers for reliability
-      max_price: {
-        prompt: appConfig.openrouterMaxPromptPrice, // Max input price per 1M tokens
-        completion: appConfig.openrouterMaxCompletionPrice, // Max output price per 1M tokens
-      },
-    } : undefined;
+    signal?.throwIfAborted();
+
+    const { adapter, model: providerModel } = resolveModel(model);
+    const requestMessages = adapter.capabilities.systemMessages
+      ? messages
+      : foldSystemMessages(messages);
+
+    // Fails fast (before cassette, cache or network) when the prompt cannot fit
+    const promptTokens = this.countMessageTokens(requestMessages, model);
+    const request: CompletionRequest = {
+      model: providerModel,
+      messages: requestMessages,
+      temperature,
+      maxTokens: fitMaxTokens(model, promptTokens, maxTokens),
+      topP,
+      stop,
+      ...(jsonMode && adapter.capabilities.jsonMode && { responseFormat: 'json' as const }),
+    };
+
+    // Replay mode: serve from the cassette without touching the network
+    const replayed = await this.cassette.lookup<CompletionResponse>('completion', {
+      ...request,
+      model,
+    });
+    if (replayed) {
+      usage?.record(stage || 'other', model, this.usageOf(model, request, replayed));
+      handlers?.onToken(replayed.content);
+      return replayed.content.trim();
+    }
+
+    // Cassettes must see every call, so the cache only sits in front of live traffic
+    const cacheRequest = { ...request, model };
+    const cacheable = !this.cassette.isActive() && this.cache.shouldCache(cacheRequest, cache);
+    if (cacheable) {
+      const cached = await this.cache.get(cacheRequest);
+      if (cached) {
+        handlers?.onToken(cached.content);
+        return cached.content.trim();
+      }
+    }
 
     let lastError: Error | null = null;
     let delay = this.retryConfig.initialDelay;
@@ -95,65 +361,69 @@ export class LLMClient {
       try {
         console.log(`[LLM CLIENT] Attempting completion with model: ${model}`);
         console.log(`[LLM CLIENT] Request details:`, {
-          provider: appConfig.llmProvider,
-          baseURL: appConfig.llmProvider === 'openrouter' ? 'https://openrouter.ai/api/v1' : 'https://api.openai.com/v1',
-          model,
-          promptLength: prompt.length,
+          provider: adapter.name,
+          model: providerModel,
+          messageCount: request.messages.length,
+          promptLength: request.messages.reduce((sum, message) => sum + message.content.length, 0),
           temperature,
-          maxTokens,
-          providerPreferences: providerPreferences || 'none',
+          maxTokens: request.maxTokens,
         });
-        
-        const response = await this.client.chat.completions.create({
+
+        const streaming = !!handlers && adapter.capabilities.streaming;
+        const response = await this.scheduler.schedule(
+          adapter.name,
           model,
-          messages: [{ role: 'user', content: prompt }],
-          temperature,
-          max_tokens: maxTokens,
-          top_p: topP,
-          stop,
-          ...(providerPreferences && { provider: providerPreferences }), // Add OpenRouter provider preferences
-        } as any); // Type assertion needed for OpenRouter-specific fields
+          // Charged against the tokens-per-minute budget, corrected once usage is known
+          promptTokens,
+          () =>
+            streaming
+              ? adapter.completeStream(request, handlers.onToken, signal)
+              : adapter.complete(request, signal),
+          (result) => result.usage?.totalTokens,
+          signal
+        );
 
-        const message = response.choices[0]?.message;
-        const content = message?.content;
-        const reasoning = (message as any)?.reasoning; // GPT-5/O1/O3 reasoning models
+        if (handlers && !streaming) {
+          handlers.onToken(response.content);
+        }
 
         console.log('[LLM CLIENT] Response received:', {
           id: response.id,
           model: response.model,
-          choices: response.choices?.length,
-          hasContent: !!content,
-          hasReasoning: !!reasoning,
-          finishReason: response.choices[0]?.finish_reason,
+          hasContent: !!response.content,
+          finishReason: response.finishReason,
         });
 
-        // For reasoning models (GPT-5, O1, O3), use reasoning field as fallback
-        if (!content && reasoning) {
-          console.log('[LLM CLIENT] Using reasoning field for reasoning model (content was empty)');
-          return reasoning.trim();
-        }
-
-        if (!content) {
+        if (!response.content) {
           console.error('[LLM CLIENT] Empty response - Full response:', JSON.stringify(response, null, 2));
           throw new Error(`Empty response from LLM. Model: ${model}, Response ID: ${response.id}`);
         }
 
-        return content.trim();
+        usage?.record(stage || 'other', model, this.usageOf(model, request, response));
+        await this.cassette.record('completion', { ...request, model }, response);
+        if (cacheable) {
+          await this.cache.set(cacheRequest, response);
+        }
+
+        return response.content.trim();
       } catch (error: any) {
+        // Cancelled runs stop immediately, without retries
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+
         lastError = error;
 
-        // Log detailed error information including OpenRouter-specific error structure
+        // Log detailed error information including provider-specific error structure
         console.error('[LLM CLIENT] Error during completion:', {
           attempt: attempt + 1,
           model,
+          provider: adapter.name,
           message: error.message,
           status: error.status,
-          type: error.type,
           code: error.code,
           // OpenRouter-specific error metadata
           metadata: error.metadata,
-          // Full error object for debugging
-          fullError: JSON.stringify(error, Object.getOwnPropertyNames(error), 2),
         });
 
         // Check if error is retryable
@@ -161,21 +431,35 @@ export class LLMClient {
         const isLastAttempt = attempt === this.retryConfig.maxRetries;
 
         if (!isRetryable || isLastAttempt) {
-          // Throw a more descriptive error for OpenRouter
+          // Throw a more descriptive error
           const errorMessage = error.message || 'Unknown error';
           const statusCode = error.status || 'unknown';
           throw new Error(
-            `[LLM Client] ${errorMessage} (Status: ${statusCode}, Model: ${model}, Provider: ${appConfig.llmProvider})`
+            `[LLM Client] ${errorMessage} (Status: ${statusCode}, Model: ${model}, Provider: ${adapter.name})`
           );
         }
 
+        // Prefer the provider's Retry-After over our own backoff
+        const wait =
+          typeof error.retryAfterMs === 'number'
+            ? Math.min(error.retryAfterMs, MAX_RETRY_AFTER_MS)
+            : delay;
+
+        // Rate limits apply to every caller of the model, so hold the whole lane
+        if (error.status === 429) {
+          this.scheduler.pause(adapter.name, model, wait);
+        }
+
         // Log retry attempt
         console.log(
-          `[LLM CLIENT] Retry attempt ${attempt + 1}/${this.retryConfig.maxRetries} after ${delay}ms`
+          `[LLM CLIENT] Retry attempt ${attempt + 1}/${this.retryConfig.maxRetries} after ${wait}ms`
         );
 
         // Wait before retrying
-        await this.sleep(delay);
+        await this.sleep(wait, signal);
+
+        // A retried stream starts over; let listeners drop the partial text
+        handlers?.onRetry?.();
 
         // Exponential backoff
         delay = Math.min(
@@ -193,19 +477,39 @@ export class LLMClient {
    */
   async embed(
     text: string,
-    options: {
+    options: CallContext & {
       model?: string;
+      stage?: PipelineStage;
     } = {}
   ): Promise<number[]> {
-    const { model = 'text-embedding-ada-002' } = options;
+    const { model = 'text-embedding-ada-002', usage, stage, signal } = options;
+    const { adapter, model: providerModel } = resolveModel(model);
+    const request = { model, input: text };
 
     try {
-      const response = await this.client.embeddings.create({
-        model,
-        input: text,
-      });
+      const response =
+        (await this.cassette.lookup<EmbeddingResponse>('embedding', request)) ||
+        (await this.scheduler.schedule(
+          adapter.name,
+          model,
+          adapter.countTokens(text, providerModel),
+          () => adapter.embed(text, providerModel, signal),
+          (result) => result.usage?.totalTokens,
+          signal
+        ));
+
+      await this.cassette.record('embedding', request, response);
+
+      if (usage) {
+        const inputTokens = adapter.countTokens(text, providerModel);
+        usage.record(
+          stage || 'other',
+          model,
+          response.usage || { promptTokens: inputTokens, completionTokens: 0, totalTokens: inputTokens }
+        );
+      }
 
-      return response.data[0]?.embedding || [];
+      return response.embedding;
     } catch (error) {
       console.error('[LLM CLIENT ERROR] Embedding generation failed:', error);
       throw error;
@@ -213,18 +517,56 @@ export class LLMClient {
   }
 
   /**
-   * Count tokens in text
+   * Count tokens in text with the model's tokenizer
+   * (the provider's estimate when the registry has no tokenizer for it)
    */
-  countTokens(text: string, model: string = 'gpt-4'): number {
-    try {
-      const encoding = encoding_for_model(model as TiktokenModel);
-      const tokens = encoding.encode(text);
-      encoding.free();
-      return tokens.length;
-    } catch (error) {
-      // Fallback: rough estimate (1 token ≈ 4 characters)
-      return Math.ceil(text.length / 4);
+  countTokens(text: string, model: string = appConfig.defaultModel): number {
+    const { tokenizer } = getModelCapabilities(model);
+    if (tokenizer) {
+      return countEncodingTokens(text, tokenizer);
+    }
+
+    const { adapter, model: providerModel } = resolveModel(model);
+    return adapter.countTokens(text, providerModel);
+  }
+
+  /**
+   * Prompt tokens of a chat request, including per-message framing
+   */
+  private countMessageTokens(messages: ChatMessage[], model: string): number {
+    return messages.reduce(
+      (sum, message) => sum + MESSAGE_OVERHEAD_TOKENS + this.countTokens(message.content, model),
+      0
+    );
+  }
+
+  /**
+   * Get the capabilities of the provider serving a model
+   */
+  getCapabilities(model: string = appConfig.defaultModel): ProviderCapabilities {
+    return resolveModel(model).adapter.capabilities;
+  }
+
+  /**
+   * Provider-reported usage, or a tokenizer estimate when the provider omits it
+   */
+  private usageOf(
+    model: string,
+    request: CompletionRequest,
+    response: CompletionResponse
+  ): TokenUsage {
+    if (response.usage) {
+      return response.usage;
     }
+
+    const promptTokens = this.countMessageTokens(request.messages, model);
+    const completionTokens = this.countTokens(response.content, model);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+    };
   }
 
   /**
@@ -256,10 +598,21 @@ export class LLMClient {
   }
 
   /**
-   * Sleep utility
+   * Sleep utility (rejects early with the abort reason if the signal fires)
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
 
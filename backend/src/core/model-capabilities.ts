@@ -0,0 +1,117 @@
+/**
+ * Model capability registry
+ * Context window, output limit and tokenizer per model. Built-in entries cover common
+ * hosted models; MODEL_CAPABILITIES ("model-id=context:max_output[:tokenizer],...")
+ * adds or overrides entries.
+ */
+
+import type { TiktokenEncoding } from 'tiktoken';
+import { appConfig } from '../config.js';
+import { resolveModel } from './providers/index.js';
+
+/**
+ * Limits of one model
+ */
+export interface ModelCapabilities {
+  contextWindow: number;
+  maxOutputTokens: number;
+  /** tiktoken encoding; omitted when the model has no public tokenizer (provider estimate) */
+  tokenizer?: TiktokenEncoding;
+}
+
+/**
+ * Assumed for models with no registry entry
+ */
+export const DEFAULT_MODEL_CAPABILITIES: ModelCapabilities = {
+  contextWindow: 128000,
+  maxOutputTokens: 16384,
+};
+
+/**
+ * Built-in entries, matched as prefixes of the bare model ID (most specific first)
+ */
+const BUILTIN_CAPABILITIES: Array<[string, ModelCapabilities]> = [
+  ['gpt-5', { contextWindow: 400000, maxOutputTokens: 128000, tokenizer: 'o200k_base' }],
+  ['gpt-oss', { contextWindow: 131072, maxOutputTokens: 32768, tokenizer: 'o200k_base' }],
+  ['gpt-4.1', { contextWindow: 1047576, maxOutputTokens: 32768, tokenizer: 'o200k_base' }],
+  ['gpt-4o', { contextWindow: 128000, maxOutputTokens: 16384, tokenizer: 'o200k_base' }],
+  ['gpt-4-turbo', { contextWindow: 128000, maxOutputTokens: 4096, tokenizer: 'cl100k_base' }],
+  ['gpt-4', { contextWindow: 8192, maxOutputTokens: 8192, tokenizer: 'cl100k_base' }],
+  ['gpt-3.5-turbo', { contextWindow: 16385, maxOutputTokens: 4096, tokenizer: 'cl100k_base' }],
+  ['o1', { contextWindow: 200000, maxOutputTokens: 100000, tokenizer: 'o200k_base' }],
+  ['o3', { contextWindow: 200000, maxOutputTokens: 100000, tokenizer: 'o200k_base' }],
+  ['o4', { contextWindow: 200000, maxOutputTokens: 100000, tokenizer: 'o200k_base' }],
+  ['claude-3.5', { contextWindow: 200000, maxOutputTokens: 8192 }],
+  ['claude-3-5', { contextWindow: 200000, maxOutputTokens: 8192 }],
+  ['claude-3', { contextWindow: 200000, maxOutputTokens: 4096 }],
+  ['claude', { contextWindow: 200000, maxOutputTokens: 64000 }],
+  ['gemini-pro-1.5', { contextWindow: 2000000, maxOutputTokens: 8192 }],
+  ['gemini', { contextWindow: 1000000, maxOutputTokens: 8192 }],
+  ['llama-3.1', { contextWindow: 131072, maxOutputTokens: 4096 }],
+  ['llama3.1', { contextWindow: 131072, maxOutputTokens: 4096 }],
+  ['qwen2.5', { contextWindow: 32768, maxOutputTokens: 8192 }],
+];
+
+/**
+ * Parse MODEL_CAPABILITIES into a lookup table
+ */
+function parseCapabilityOverrides(raw: string): Map<string, ModelCapabilities> {
+  const table = new Map<string, ModelCapabilities>();
+
+  for (const entry of raw.split(',')) {
+    if (!entry.trim()) continue;
+
+    // Model IDs may contain ":" (e.g. "ollama:llama3.1:8b"), so split on the last "="
+    const separator = entry.lastIndexOf('=');
+    const modelId = separator === -1 ? '' : entry.slice(0, separator).trim();
+    const [context, maxOutput, tokenizer] = entry
+      .slice(separator + 1)
+      .split(':')
+      .map((value) => value.trim());
+    const contextWindow = Number(context);
+    const maxOutputTokens = Number(maxOutput);
+
+    if (!modelId || !(contextWindow > 0) || !(maxOutputTokens > 0)) {
+      console.warn(`[CONFIG WARNING] Ignoring invalid MODEL_CAPABILITIES entry: "${entry.trim()}"`);
+      continue;
+    }
+
+    table.set(modelId, {
+      contextWindow,
+      maxOutputTokens,
+      ...((tokenizer === 'o200k_base' || tokenizer === 'cl100k_base') && { tokenizer }),
+    });
+  }
+
+  return table;
+}
+
+const overrides = parseCapabilityOverrides(appConfig.modelCapabilities);
+const warnedModels = new Set<string>();
+
+/**
+ * Capabilities of a model (override by exact or bare ID, then built-in prefix match)
+ */
+export function getModelCapabilities(model: string): ModelCapabilities {
+  const providerModel = resolveModel(model).model;
+  // OpenRouter-style IDs carry a vendor prefix (e.g. "openai/gpt-4o")
+  const bareModel = providerModel.split('/').pop() || providerModel;
+  const override = overrides.get(model) || overrides.get(providerModel) || overrides.get(bareModel);
+  if (override) {
+    return override;
+  }
+
+  const builtin = BUILTIN_CAPABILITIES.find(([prefix]) => bareModel.startsWith(prefix));
+  if (builtin) {
+    return builtin[1];
+  }
+
+  if (!warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(
+      `[LLM CLIENT] No capabilities known for ${model}, assuming a ${DEFAULT_MODEL_CAPABILITIES.contextWindow}-token context (set MODEL_CAPABILITIES)`
+    );
+  }
+
+  return DEFAULT_MODEL_CAPABILITIES;
+}
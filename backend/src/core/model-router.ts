@@ -0,0 +1,58 @@
+/**
+ * Per-stage model routing
+ * Each pipeline stage can declare an ordered model chain (MODEL_<STAGE>="primary,fallback,...").
+ * LLMClient walks the chain when a model errors or returns empty content.
+ */
+
+import { appConfig } from '../config.js';
+import type { PipelineStage } from './stages.js';
+
+/**
+ * Parse a comma-separated model chain
+ */
+function parseChain(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+}
+
+const STAGE_CHAINS: Record<PipelineStage, string[]> = {
+  dataset_generation: parseChain(appConfig.modelDatasetGeneration),
+  framework_building: parseChain(appConfig.modelFrameworkBuilding),
+  execution: parseChain(appConfig.modelExecution),
+  judging: parseChain(appConfig.modelJudging),
+  rsip: parseChain(appConfig.modelRsip),
+};
+
+/**
+ * Models to try, in order, for a call in a stage
+ *
+ * - execution: the run's requested model (the model under test) first, then the stage chain
+ * - other stages: the configured chain, else the run's requested model
+ * - no stage / nothing configured: the default model
+ */
+export function getModelChain(stage: PipelineStage | undefined, runModel?: string): string[] {
+  const configured = stage ? STAGE_CHAINS[stage] : [];
+
+  if (stage === 'execution') {
+    const primary = runModel || configured[0] || appConfig.defaultModel;
+    return [primary, ...configured.filter((model) => model !== primary)];
+  }
+
+  if (configured.length > 0) {
+    return configured;
+  }
+
+  return [runModel || appConfig.defaultModel];
+}
+
+/**
+ * Configured chains, for startup logging
+ */
+export function describeStageModels(): string {
+  return (Object.entries(STAGE_CHAINS) as Array<[PipelineStage, string[]]>)
+    .filter(([, chain]) => chain.length > 0)
+    .map(([stage, chain]) => `${stage}=${chain.join(' > ')}`)
+    .join(', ');
+}
@@ -0,0 +1,69 @@
+/**
+ * Per-model token pricing
+ * Prices come from MODEL_PRICES ("model-id=input:output,...", USD per 1M tokens)
+ */
+
+import { appConfig } from '../config.js';
+import type { TokenUsage } from './providers/index.js';
+
+/**
+ * Price of a model in USD per 1M tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Parse MODEL_PRICES into a lookup table
+ */
+function parsePriceTable(raw: string): Map<string, ModelPrice> {
+  const table = new Map<string, ModelPrice>();
+
+  for (const entry of raw.split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator === -1) continue;
+
+    const modelId = entry.slice(0, separator).trim();
+    const [input, output] = entry
+      .slice(separator + 1)
+      .split(':')
+      .map((value) => Number(value.trim()));
+
+    if (!modelId || input === undefined || Number.isNaN(input)) {
+      console.warn(`[CONFIG WARNING] Ignoring invalid MODEL_PRICES entry: "${entry.trim()}"`);
+      continue;
+    }
+
+    table.set(modelId, {
+      input,
+      output: output === undefined || Number.isNaN(output) ? input : output,
+    });
+  }
+
+  return table;
+}
+
+const priceTable = parsePriceTable(appConfig.modelPrices);
+
+/**
+ * Get the configured price for a model (exact ID, then without routing/vendor prefix)
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const bareModel = model.split(/[:/]/).pop() || model;
+  return priceTable.get(model) || priceTable.get(bareModel) || null;
+}
+
+/**
+ * Cost of a call in USD (0 when the model has no configured price)
+ */
+export function calculateCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000
+  );
+}
@@ -0,0 +1,197 @@
+/**
+ * Anthropic Messages API provider adapter
+ */
+
+import { postJson, postLines } from './http.js';
+import { estimateTokens } from './tokenizer.js';
+import {
+  ProviderError,
+  type CompletionRequest,
+  type CompletionResponse,
+  type EmbeddingResponse,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+} from './types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+/**
+ * Messages API response shape (subset we use)
+ */
+interface AnthropicMessageResponse {
+  id: string;
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Adapter for Anthropic-style messages APIs
+ */
+export class AnthropicAdapter implements ProviderAdapter {
+  readonly name = 'anthropic' as const;
+  readonly capabilities: ProviderCapabilities = {
+    embeddings: false,
+    jsonMode: false,
+    streaming: true,
+    systemMessages: true,
+  };
+
+  constructor(
+    private apiKey: string | undefined,
+    private baseUrl: string
+  ) {}
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+    const response = await postJson<AnthropicMessageResponse>(
+      this.name,
+      this.messagesUrl(),
+      this.buildBody(request),
+      this.headers(),
+      signal
+    );
+
+    const content = response.content
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+
+    return {
+      id: response.id,
+      model: response.model,
+      content,
+      finishReason: response.stop_reason,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.input_tokens,
+            completionTokens: response.usage.output_tokens,
+            totalTokens: response.usage.input_tokens + response.usage.output_tokens,
+          }
+        : undefined,
+    };
+  }
+
+  async completeStream(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<CompletionResponse> {
+    const lines = postLines(
+      this.name,
+      this.messagesUrl(),
+      { ...this.buildBody(request), stream: true },
+      this.headers(),
+      signal
+    );
+
+    let id = '';
+    let model = request.model;
+    let content = '';
+    let finishReason: string | null = null;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (!data) continue;
+
+      // Keep-alives and malformed lines are skipped; failures arrive as "error" events
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        console.warn(`[ANTHROPIC] Skipping malformed stream line: ${data.slice(0, 200)}`);
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          id = event.message?.id || id;
+          model = event.message?.model || model;
+          inputTokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            onDelta(event.delta.text);
+          }
+          break;
+        case 'message_delta':
+          finishReason = event.delta?.stop_reason ?? finishReason;
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case 'error':
+          throw new ProviderError(
+            event.error?.message || 'Stream error',
+            this.name,
+            event.error?.type === 'overloaded_error' ? 529 : undefined
+          );
+      }
+    }
+
+    return {
+      id,
+      model,
+      content,
+      finishReason,
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    };
+  }
+
+  async embed(): Promise<EmbeddingResponse> {
+    throw new ProviderError('Anthropic does not provide an embeddings API', this.name);
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  private messagesUrl(): string {
+    return `${this.baseUrl.replace(/\/$/, '')}/v1/messages`;
+  }
+
+  private headers(): Record<string, string> {
+    if (!this.apiKey) {
+      throw new ProviderError('ANTHROPIC_API_KEY is not configured', this.name, 401);
+    }
+
+    return {
+      'x-api-key': this.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+    };
+  }
+
+  /**
+   * Translate a chat request into a Messages API body
+   */
+  private buildBody(request: CompletionRequest): Record<string, unknown> {
+    // The Messages API takes the system prompt as a top-level field
+    const system = request.messages
+      .filter((m) => m.role === 'system')
+      .map((m) => m.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter((m) => m.role !== 'system')
+      .map((m) => ({ role: m.role, content: m.content }));
+
+    return {
+      model: request.model,
+      messages,
+      ...(system && { system }),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      // Newer models reject temperature and top_p together; only send a non-default top_p
+      ...(request.topP < 1 && { top_p: request.topP }),
+      ...(request.stop && { stop_sequences: request.stop }),
+    };
+  }
+}
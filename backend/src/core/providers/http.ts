@@ -0,0 +1,123 @@
+/**
+ * Minimal JSON-over-HTTP helpers for providers without an SDK
+ */
+
+import { ProviderError, parseRetryAfter, type ProviderName } from './types.js';
+
+/**
+ * POST a JSON body and parse the JSON response
+ * Non-2xx responses become ProviderErrors carrying the HTTP status
+ */
+export async function postJson<T>(
+  provider: ProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await post(provider, url, body, headers, signal);
+  const text = await response.text();
+
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new ProviderError(`Invalid JSON response from ${url}`, provider, response.status);
+  }
+}
+
+/**
+ * POST a JSON body and yield the response body line by line
+ * Used for SSE and NDJSON streaming endpoints
+ */
+export async function* postLines(
+  provider: ProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): AsyncGenerator<string, void, unknown> {
+  const response = await post(provider, url, body, headers, signal);
+
+  if (!response.body) {
+    throw new ProviderError(`Empty stream from ${url}`, provider, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+    for (const line of lines) {
+      yield line.replace(/\r$/, '');
+    }
+  }
+
+  if (buffer) {
+    yield buffer;
+  }
+}
+
+/**
+ * Send a POST request, converting failures into ProviderErrors
+ */
+async function post(
+  provider: ProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error: any) {
+    // Cancelled by the caller: surface the abort reason, never a retryable error
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+
+    // Network-level failure (server down, DNS, reset): no status, retryable
+    throw new ProviderError(
+      `Request to ${url} failed: ${error?.message || 'network error'}`,
+      provider,
+      undefined,
+      error?.cause?.code
+    );
+  }
+
+  if (!response.ok) {
+    const text = await response.text();
+    let message = text || response.statusText;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed?.error?.message || parsed?.error || parsed?.message || message;
+    } catch {
+      // Body was not JSON, keep raw text
+    }
+    throw new ProviderError(
+      String(message),
+      provider,
+      response.status,
+      undefined,
+      parseRetryAfter((name) => response.headers.get(name))
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,144 @@
+/**
+ * Provider registry
+ * Builds adapters from configuration and routes model IDs to them
+ */
+
+import { appConfig } from '../../config.js';
+import { AnthropicAdapter } from './anthropic.js';
+import { OllamaAdapter } from './ollama.js';
+import { OpenAICompatibleAdapter } from './openai-compatible.js';
+import type { ProviderAdapter, ProviderName } from './types.js';
+
+export * from './types.js';
+
+const PROVIDER_NAMES: ProviderName[] = [
+  'openai',
+  'openrouter',
+  'anthropic',
+  'openai_compatible',
+  'ollama',
+];
+
+/**
+ * Resolved provider for a model ID
+ */
+export interface ResolvedModel {
+  adapter: ProviderAdapter;
+  /** Model ID as the provider expects it (routing prefix stripped) */
+  model: string;
+}
+
+const adapters = new Map<ProviderName, ProviderAdapter>();
+
+/**
+ * Create the adapter for a provider from configuration
+ */
+function createAdapter(name: ProviderName): ProviderAdapter {
+  switch (name) {
+    case 'openrouter':
+      return new OpenAICompatibleAdapter({
+        name,
+        baseURL: 'https://openrouter.ai/api/v1',
+        apiKey: appConfig.openrouterApiKey,
+        defaultHeaders: {
+          'HTTP-Referer': 'https://powerprompts.app', // Optional for OpenRouter rankings
+          'X-Title': 'PowerPrompts', // Optional for OpenRouter rankings
+        },
+        // OpenRouter Provider Preferences: Optimize for high throughput + mid-price
+        // Targets providers like Google Vertex, Groq, SambaNova that have excellent throughput/price ratio
+        extraBody: {
+          provider: {
+            sort: 'throughput', // Prioritize high throughput (Google Vertex: 547.8 TPS, Groq: 674.3 TPS)
+            allow_fallbacks: true, // Allow backup providers for reliability
+            max_price: {
+              prompt: appConfig.openrouterMaxPromptPrice, // Max input price per 1M tokens
+              completion: appConfig.openrouterMaxCompletionPrice, // Max output price per 1M tokens
+            },
+          },
+        },
+        // OpenRouter has no embeddings endpoint
+        capabilities: { embeddings: false },
+      });
+    case 'openai_compatible':
+      return new OpenAICompatibleAdapter({
+        name,
+        baseURL: appConfig.openaiCompatibleBaseUrl,
+        apiKey: appConfig.openaiCompatibleApiKey,
+        // Local servers rarely implement response_format or stream usage reliably
+        streamUsage: false,
+        capabilities: { jsonMode: false },
+      });
+    case 'anthropic':
+      return new AnthropicAdapter(appConfig.anthropicApiKey, appConfig.anthropicBaseUrl);
+    case 'ollama':
+      return new OllamaAdapter(appConfig.ollamaBaseUrl);
+    case 'openai':
+    default:
+      return new OpenAICompatibleAdapter({
+        name: 'openai',
+        apiKey: appConfig.openaiApiKey,
+      });
+  }
+}
+
+/**
+ * Get (or lazily create) the adapter for a provider
+ */
+export function getProvider(name: ProviderName): ProviderAdapter {
+  let adapter = adapters.get(name);
+  if (!adapter) {
+    console.log(`[LLM CLIENT] Initializing ${name} provider`);
+    adapter = createAdapter(name);
+    adapters.set(name, adapter);
+  }
+  return adapter;
+}
+
+/**
+ * Parse MODEL_PROVIDERS ("model-id=provider,other-model=provider")
+ */
+function parseModelProviderMap(): Map<string, ProviderName> {
+  const map = new Map<string, ProviderName>();
+
+  for (const entry of appConfig.modelProviders.split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator === -1) continue;
+
+    const modelId = entry.slice(0, separator).trim();
+    const provider = entry.slice(separator + 1).trim() as ProviderName;
+
+    if (modelId && PROVIDER_NAMES.includes(provider)) {
+      map.set(modelId, provider);
+    } else if (modelId) {
+      console.warn(`[CONFIG WARNING] Unknown provider "${provider}" for model "${modelId}"`);
+    }
+  }
+
+  return map;
+}
+
+const modelProviderMap = parseModelProviderMap();
+
+/**
+ * Resolve which provider serves a model ID
+ *
+ * Resolution order:
+ * 1. Explicit prefix: "ollama:llama3.1:8b", "anthropic:claude-3-5-sonnet-latest"
+ * 2. MODEL_PROVIDERS mapping
+ * 3. LLM_PROVIDER default
+ */
+export function resolveModel(modelId: string): ResolvedModel {
+  const separator = modelId.indexOf(':');
+  if (separator > 0) {
+    const prefix = modelId.slice(0, separator) as ProviderName;
+    if (PROVIDER_NAMES.includes(prefix)) {
+      return { adapter: getProvider(prefix), model: modelId.slice(separator + 1) };
+    }
+  }
+
+  const mapped = modelProviderMap.get(modelId);
+  return {
+    adapter: getProvider(mapped || appConfig.llmProvider),
+    model: modelId,
+  };
+}
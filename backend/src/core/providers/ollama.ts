@@ -0,0 +1,159 @@
+/**
+ * Ollama provider adapter (local models)
+ */
+
+import { postJson, postLines } from './http.js';
+import { estimateTokens } from './tokenizer.js';
+import {
+  ProviderError,
+  type CompletionRequest,
+  type CompletionResponse,
+  type EmbeddingResponse,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+} from './types.js';
+
+/**
+ * /api/chat response shape (non-streaming)
+ */
+interface OllamaChatResponse {
+  model: string;
+  created_at: string;
+  message?: { role: string; content: string };
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+/**
+ * /api/embed response shape
+ */
+interface OllamaEmbedResponse {
+  embeddings: number[][];
+  prompt_eval_count?: number;
+}
+
+/**
+ * Adapter for a local Ollama server
+ */
+export class OllamaAdapter implements ProviderAdapter {
+  readonly name = 'ollama' as const;
+  readonly capabilities: ProviderCapabilities = {
+    embeddings: true,
+    jsonMode: true,
+    streaming: true,
+    systemMessages: true,
+  };
+
+  constructor(private baseUrl: string) {}
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+    const response = await postJson<OllamaChatResponse>(
+      this.name,
+      this.chatUrl(),
+      this.buildBody(request, false),
+      {},
+      signal
+    );
+
+    return this.toResponse(response, response.message?.content || '');
+  }
+
+  async completeStream(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<CompletionResponse> {
+    let content = '';
+    let final: OllamaChatResponse | null = null;
+    const lines = postLines(this.name, this.chatUrl(), this.buildBody(request, true), {}, signal);
+
+    // Streaming responses are newline-delimited JSON objects
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+
+      // Malformed lines are skipped; failures mid-stream arrive as {"error": "..."} lines
+      let chunk: OllamaChatResponse & { done?: boolean; error?: string };
+      try {
+        chunk = JSON.parse(line);
+      } catch {
+        console.warn(`[OLLAMA] Skipping malformed stream line: ${line.slice(0, 200)}`);
+        continue;
+      }
+      if (chunk.error) {
+        throw new ProviderError(chunk.error, this.name);
+      }
+
+      const delta = chunk.message?.content;
+      if (delta) {
+        content += delta;
+        onDelta(delta);
+      }
+      if (chunk.done) {
+        final = chunk;
+      }
+    }
+
+    return this.toResponse(
+      final || { model: request.model, created_at: new Date().toISOString() },
+      content
+    );
+  }
+
+  async embed(text: string, model: string, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    const response = await postJson<OllamaEmbedResponse>(
+      this.name,
+      `${this.baseUrl.replace(/\/$/, '')}/api/embed`,
+      { model, input: text },
+      {},
+      signal
+    );
+
+    const promptTokens = response.prompt_eval_count ?? 0;
+
+    return {
+      embedding: response.embeddings[0] || [],
+      usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+    };
+  }
+
+  countTokens(text: string): number {
+    return estimateTokens(text);
+  }
+
+  private chatUrl(): string {
+    return `${this.baseUrl.replace(/\/$/, '')}/api/chat`;
+  }
+
+  private buildBody(request: CompletionRequest, stream: boolean): Record<string, unknown> {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      ...(request.responseFormat === 'json' && { format: 'json' }),
+      options: {
+        temperature: request.temperature,
+        top_p: request.topP,
+        num_predict: request.maxTokens,
+        ...(request.stop && { stop: request.stop }),
+      },
+    };
+  }
+
+  private toResponse(response: OllamaChatResponse, content: string): CompletionResponse {
+    const promptTokens = response.prompt_eval_count ?? 0;
+    const completionTokens = response.eval_count ?? 0;
+
+    return {
+      id: `ollama-${response.created_at}`,
+      model: response.model,
+      content,
+      finishReason: response.done_reason ?? null,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * OpenAI-compatible provider adapter
+ * Covers OpenAI, OpenRouter and any server exposing the OpenAI chat API
+ * (vLLM, llama.cpp server, LM Studio, ...)
+ */
+
+import OpenAI from 'openai';
+import { countTiktokenTokens } from './tokenizer.js';
+import {
+  ProviderError,
+  parseRetryAfter,
+  type CompletionRequest,
+  type CompletionResponse,
+  type EmbeddingResponse,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+  type ProviderName,
+} from './types.js';
+
+/**
+ * OpenAI-compatible adapter options
+ */
+export interface OpenAICompatibleOptions {
+  name: ProviderName;
+  baseURL?: string;
+  apiKey?: string;
+  defaultHeaders?: Record<string, string>;
+  /** Extra fields merged into every chat completion body */
+  extraBody?: Record<string, unknown>;
+  /** Request a final usage chunk when streaming (not every server supports it) */
+  streamUsage?: boolean;
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+/**
+ * Adapter for providers speaking the OpenAI chat completions protocol
+ */
+export class OpenAICompatibleAdapter implements ProviderAdapter {
+  readonly name: ProviderName;
+  readonly capabilities: ProviderCapabilities;
+  private client: OpenAI;
+  private extraBody: Record<string, unknown>;
+  private streamUsage: boolean;
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.name = options.name;
+    this.client = new OpenAI({
+      baseURL: options.baseURL,
+      // Local servers usually ignore the key, but the SDK requires one
+      apiKey: options.apiKey || 'not-needed',
+      defaultHeaders: options.defaultHeaders,
+    });
+    this.extraBody = options.extraBody || {};
+    this.streamUsage = options.streamUsage ?? true;
+    this.capabilities = {
+      embeddings: true,
+      jsonMode: true,
+      streaming: true,
+      systemMessages: true,
+      ...options.capabilities,
+    };
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        stop: request.stop,
+        ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        ...this.extraBody,
+      } as any, { signal }); // Type assertion needed for provider-specific fields (e.g. OpenRouter routing)
+
+      const choice = response.choices[0];
+      const message = choice?.message;
+      const content = message?.content;
+      const reasoning = (message as any)?.reasoning; // GPT-5/O1/O3 reasoning models
+
+      // For reasoning models (GPT-5, O1, O3), use reasoning field as fallback
+      if (!content && reasoning) {
+        console.log(`[${this.name.toUpperCase()}] Using reasoning field (content was empty)`);
+      }
+
+      return {
+        id: response.id,
+        model: response.model,
+        content: content || reasoning || '',
+        finishReason: choice?.finish_reason ?? null,
+        usage: response.usage
+          ? {
+              promptTokens: response.usage.prompt_tokens,
+              completionTokens: response.usage.completion_tokens,
+              totalTokens: response.usage.total_tokens,
+            }
+          : undefined,
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error, signal);
+    }
+  }
+
+  async completeStream(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<CompletionResponse> {
+    try {
+      const stream = (await this.client.chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        top_p: request.topP,
+        stop: request.stop,
+        ...(request.responseFormat === 'json' && { response_format: { type: 'json_object' } }),
+        stream: true,
+        ...(this.streamUsage && { stream_options: { include_usage: true } }),
+        ...this.extraBody,
+      } as any, { signal })) as unknown as AsyncIterable<any>;
+
+      let id = '';
+      let model = request.model;
+      let content = '';
+      let reasoning = '';
+      let finishReason: string | null = null;
+      let usage: CompletionResponse['usage'];
+
+      for await (const chunk of stream) {
+        id = chunk.id || id;
+        model = chunk.model || model;
+
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        // Reasoning models stream their thinking separately; keep it as a fallback
+        if (choice?.delta?.reasoning) {
+          reasoning += choice.delta.reasoning;
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens,
+            completionTokens: chunk.usage.completion_tokens,
+            totalTokens: chunk.usage.total_tokens,
+          };
+        }
+      }
+
+      return {
+        id,
+        model,
+        content: content || reasoning,
+        finishReason,
+        usage,
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error, signal);
+    }
+  }
+
+  async embed(text: string, model: string, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    if (!this.capabilities.embeddings) {
+      throw new ProviderError(
+        `Provider "${this.name}" does not support embeddings`,
+        this.name
+      );
+    }
+
+    try {
+      const response = await this.client.embeddings.create(
+        {
+          model,
+          input: text,
+        },
+        { signal }
+      );
+
+      return {
+        embedding: response.data[0]?.embedding || [],
+        usage: response.usage
+          ? {
+              promptTokens: response.usage.prompt_tokens,
+              completionTokens: 0,
+              totalTokens: response.usage.total_tokens,
+            }
+          : undefined,
+      };
+    } catch (error: any) {
+      throw this.toProviderError(error, signal);
+    }
+  }
+
+  countTokens(text: string, model: string): number {
+    // OpenRouter-style IDs carry a vendor prefix (e.g. "openai/gpt-4o")
+    const modelName = model.includes('/') ? model.split('/').pop() || model : model;
+    return countTiktokenTokens(text, modelName);
+  }
+
+  /**
+   * Normalize SDK errors, keeping status/code for retry decisions
+   * Cancellations surface the abort reason instead, so they are never retried
+   */
+  private toProviderError(error: any, signal?: AbortSignal): Error {
+    if (error instanceof ProviderError) {
+      return error;
+    }
+    if (signal?.aborted) {
+      return signal.reason;
+    }
+
+    const providerError = new ProviderError(
+      error?.message || 'Unknown error',
+      this.name,
+      error?.status,
+      error?.code ?? (error?.cause as any)?.code,
+      parseRetryAfter((name) => error?.headers?.[name])
+    );
+    // Preserve OpenRouter-specific error metadata for logging
+    (providerError as any).metadata = error?.metadata;
+    return providerError;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Token counting helpers shared by provider adapters
+ */
+
+import {
+  get_encoding,
+  get_encoding_name_for_model,
+  type Tiktoken,
+  type TiktokenEncoding,
+  type TiktokenModel,
+} from 'tiktoken';
+
+/**
+ * Loaded encodings, kept for the life of the process (loading one parses its whole
+ * vocabulary, and every request is counted)
+ */
+const encodings = new Map<TiktokenEncoding, Tiktoken>();
+
+function getEncoding(encodingName: TiktokenEncoding): Tiktoken {
+  let encoding = encodings.get(encodingName);
+  if (!encoding) {
+    encoding = get_encoding(encodingName);
+    encodings.set(encodingName, encoding);
+  }
+  return encoding;
+}
+
+/**
+ * Count tokens with the tiktoken encoding for a model
+ * Unknown models fall back to cl100k_base, then to a character estimate
+ */
+export function countTiktokenTokens(text: string, model: string): number {
+  let encodingName: TiktokenEncoding;
+  try {
+    encodingName = get_encoding_name_for_model(model as TiktokenModel);
+  } catch {
+    return estimateTokens(text);
+  }
+  return countEncodingTokens(text, encodingName);
+}
+
+/**
+ * Approximate tokens for models without a public tokenizer
+ * Uses cl100k_base, which is within a few percent for most modern models
+ */
+export function estimateTokens(text: string): number {
+  return countEncodingTokens(text, 'cl100k_base');
+}
+
+/**
+ * Count tokens with a specific tiktoken encoding
+ */
+export function countEncodingTokens(text: string, encodingName: TiktokenEncoding): number {
+  try {
+    return getEncoding(encodingName).encode(text).length;
+  } catch {
+    // Fallback: rough estimate (1 token ≈ 4 characters)
+    return Math.ceil(text.length / 4);
+  }
+}
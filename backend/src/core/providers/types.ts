@@ -0,0 +1,151 @@
+/**
+ * Provider adapter contracts shared by every LLM backend
+ */
+
+/**
+ * Supported provider identifiers
+ */
+export type ProviderName =
+  | 'openai'
+  | 'openrouter'
+  | 'anthropic'
+  | 'openai_compatible'
+  | 'ollama';
+
+/**
+ * Chat message passed to providers
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Provider-agnostic completion request
+ */
+export interface CompletionRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  topP: number;
+  stop?: string[];
+  /** Ask for a JSON object response (only set when the provider supports jsonMode) */
+  responseFormat?: 'json';
+}
+
+/**
+ * Token usage reported by a provider
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Provider-agnostic completion response
+ */
+export interface CompletionResponse {
+  id: string;
+  model: string;
+  content: string;
+  finishReason: string | null;
+  usage?: TokenUsage;
+}
+
+/**
+ * Provider-agnostic embedding response
+ */
+export interface EmbeddingResponse {
+  embedding: number[];
+  usage?: TokenUsage;
+}
+
+/**
+ * Features a provider supports
+ */
+export interface ProviderCapabilities {
+  embeddings: boolean;
+  jsonMode: boolean;
+  streaming: boolean;
+  systemMessages: boolean;
+}
+
+/**
+ * Adapter interface implemented by every LLM provider
+ */
+export interface ProviderAdapter {
+  readonly name: ProviderName;
+  readonly capabilities: ProviderCapabilities;
+
+  /**
+   * Run a chat completion (no retries - LLMClient owns retry policy)
+   * Aborting the signal cancels the in-flight HTTP request
+   */
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse>;
+
+  /**
+   * Run a chat completion, invoking onDelta for each text fragment as it arrives
+   * Resolves with the full response once the stream ends
+   */
+  completeStream(
+    request: CompletionRequest,
+    onDelta: (delta: string) => void,
+    signal?: AbortSignal
+  ): Promise<CompletionResponse>;
+
+  /**
+   * Generate an embedding vector for text
+   */
+  embed(text: string, model: string, signal?: AbortSignal): Promise<EmbeddingResponse>;
+
+  /**
+   * Count tokens in text for the given model
+   */
+  countTokens(text: string, model: string): number;
+}
+
+/**
+ * Error raised by provider adapters
+ * Carries the HTTP status (and any Retry-After hint) so LLMClient can decide whether
+ * and when to retry
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly status?: number,
+    public readonly code?: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * Parse Retry-After style headers into milliseconds
+ * Accepts "retry-after-ms", delay-seconds or an HTTP date
+ */
+export function parseRetryAfter(
+  getHeader: (name: string) => string | null | undefined
+): number | undefined {
+  const milliseconds = Number(getHeader('retry-after-ms'));
+  if (getHeader('retry-after-ms') && Number.isFinite(milliseconds)) {
+    return Math.max(0, milliseconds);
+  }
+
+  const value = getHeader('retry-after');
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,235 @@
+/**
+ * Code execution sandbox
+ *
+ * Runs model-written JavaScript against test snippets in a worker thread: the code and
+ * tests share a fresh vm context without Node globals (no require, process or host
+ * objects), the worker gets an empty environment (no API keys) and a heap limit, and it is
+ * terminated when the time limit is up. This contains runaway or careless code; it is not
+ * a hardened boundary against code written to escape.
+ */
+
+import { Worker } from 'worker_threads';
+import { appConfig } from '../config.js';
+
+/**
+ * A test snippet run after the code; it passes unless it throws (or rejects)
+ * `assert(condition, message)`, `assert.equal(actual, expected)` and
+ * `assert.deepEqual(actual, expected)` are available
+ */
+export interface CodeTest {
+  name?: string;
+  code: string;
+}
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of running one code sample against an example's tests
+ */
+export interface SandboxResult {
+  /** Every test passed */
+  passed: boolean;
+  tests: TestResult[];
+  /** The code itself failed to load (syntax error, throw at top level, ...) */
+  error?: string;
+}
+
+/**
+ * Extra time for starting the worker, on top of the per-snippet limits
+ */
+const WORKER_STARTUP_MS = 1000;
+
+/**
+ * Workers running at once; more wait for a free slot
+ */
+const MAX_CONCURRENT_WORKERS = 2;
+
+/**
+ * Worker source (CommonJS, evaluated by the worker thread)
+ * The assert helpers are defined inside the context so no host function is reachable.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const { code, tests, timeoutMs } = workerData;
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+});
+vm.runInContext(\`
+  globalThis.console = { log() {}, info() {}, warn() {}, error() {}, debug() {} };
+  globalThis.module = { exports: {} };
+  globalThis.exports = globalThis.module.exports;
+  globalThis.require = (name) => { throw new Error('require is not available: ' + name); };
+  const __equal = (a, b) => {
+    if (Object.is(a, b)) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every((k) => k in b && __equal(a[k], b[k]));
+  };
+  const __show = (value) => { try { return JSON.stringify(value); } catch { return String(value); } };
+  globalThis.assert = (condition, message) => {
+    if (!condition) throw new Error(message || 'Assertion failed');
+  };
+  globalThis.assert.equal = (actual, expected, message) => {
+    if (!Object.is(actual, expected)) {
+      throw new Error(message || 'Expected ' + __show(expected) + ', got ' + __show(actual));
+    }
+  };
+  globalThis.assert.deepEqual = (actual, expected, message) => {
+    if (!__equal(actual, expected)) {
+      throw new Error(message || 'Expected ' + __show(expected) + ', got ' + __show(actual));
+    }
+  };
+\`, context);
+
+const describe = (error) =>
+  error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+(async () => {
+  try {
+    vm.runInContext(code, context, { timeout: timeoutMs });
+  } catch (error) {
+    parentPort.postMessage({ type: 'load_error', error: describe(error) });
+    return;
+  }
+
+  for (let i = 0; i < tests.length; i++) {
+    try {
+      const result = vm.runInContext(tests[i].code, context, { timeout: timeoutMs });
+      if (result && typeof result.then === 'function') await result;
+      parentPort.postMessage({ type: 'test', index: i, passed: true });
+    } catch (error) {
+      parentPort.postMessage({ type: 'test', index: i, passed: false, error: describe(error) });
+    }
+  }
+  parentPort.postMessage({ type: 'done' });
+})();
+`;
+
+type WorkerMessage =
+  | { type: 'load_error'; error: string }
+  | { type: 'test'; index: number; passed: boolean; error?: string }
+  | { type: 'done' };
+
+/**
+ * Extract the JavaScript to run from a model output
+ * Fenced JavaScript blocks (or unlabeled ones) are joined in order; an output without
+ * fences is taken as code. ES module export keywords are dropped since the code runs as
+ * a script.
+ */
+export function extractCode(output: string): string {
+  const blocks = [...output.matchAll(/```([\w+-]*)[^\n]*\n([\s\S]*?)```/g)]
+    .filter(([, language]) => !language || /^(js|javascript|node|jsx|mjs|cjs)$/i.test(language))
+    .map(([, , body]) => body ?? '');
+  const code = blocks.length > 0 ? blocks.join('\n') : output;
+  return code.replace(/^(\s*)export\s+(?:default\s+)?(?=(?:async\s+)?(?:function|class|const|let|var)\b)/gm, '$1');
+}
+
+/**
+ * Code sandbox class
+ */
+export class CodeSandbox {
+  private running = 0;
+  private waiting: Array<() => void> = [];
+
+  private async acquire(): Promise<void> {
+    if (this.running < MAX_CONCURRENT_WORKERS) {
+      this.running++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next(); // The slot passes straight to the next caller
+    } else {
+      this.running--;
+    }
+  }
+
+  /**
+   * Run code, then each test, in a fresh sandbox
+   * Tests without a result when the time limit is hit fail as timed out
+   */
+  async run(code: string, tests: CodeTest[]): Promise<SandboxResult> {
+    await this.acquire();
+    try {
+      return await this.execute(code, tests);
+    } finally {
+      this.release();
+    }
+  }
+
+  private execute(code: string, tests: CodeTest[]): Promise<SandboxResult> {
+    const timeoutMs = appConfig.codeExecutionTimeoutMs;
+    const results: Array<TestResult | undefined> = tests.map(() => undefined);
+    const testName = (index: number) => tests[index]?.name || `test ${index + 1}`;
+
+    return new Promise((resolve) => {
+      const worker = new Worker(WORKER_SOURCE, {
+        eval: true,
+        workerData: { code, tests, timeoutMs },
+        env: {},
+        resourceLimits: {
+          maxOldGenerationSizeMb: appConfig.codeExecutionMemoryMb,
+          maxYoungGenerationSizeMb: Math.max(4, Math.round(appConfig.codeExecutionMemoryMb / 4)),
+          stackSizeMb: 4,
+        },
+      });
+
+      let settled = false;
+      const finish = (error?: string) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        void worker.terminate();
+
+        const testResults = results.map(
+          (result, index) =>
+            result ?? { name: testName(index), passed: false, error: error ?? 'Did not run' }
+        );
+        resolve({
+          passed: testResults.every((result) => result.passed) && !error,
+          tests: testResults,
+          ...(error && { error }),
+        });
+      };
+
+      const timer = setTimeout(
+        () => finish(`Timed out after ${timeoutMs}ms`),
+        timeoutMs * (tests.length + 1) + WORKER_STARTUP_MS
+      );
+
+      worker.on('message', (message: WorkerMessage) => {
+        if (message.type === 'load_error') {
+          finish(message.error);
+        } else if (message.type === 'test') {
+          results[message.index] = {
+            name: testName(message.index),
+            passed: message.passed,
+            ...(message.error && { error: message.error }),
+          };
+        } else {
+          finish();
+        }
+      });
+      // Raised for uncaught errors and ERR_WORKER_OUT_OF_MEMORY
+      worker.on('error', (error) => finish(error.message));
+      // A test awaiting a promise that never settles lets the worker exit early
+      worker.on('exit', () => finish('Test never completed'));
+    });
+  }
+}
+
+/**
+ * Global code sandbox instance
+ */
+export const codeSandbox = new CodeSandbox();
@@ -0,0 +1,322 @@
+/**
+ * Request scheduler for LLM calls
+ *
+ * Every provider call runs in a lane with a concurrency limit and token buckets for
+ * requests and tokens per minute. Lanes are per provider, or per model when the model
+ * has its own entry in LLM_RATE_LIMITS. A Retry-After from the provider pauses the
+ * whole lane, so parallel callers back off together instead of hammering the API.
+ */
+
+import { appConfig } from '../config.js';
+import { CancelledError } from './cancellation.js';
+
+/**
+ * Limits for one lane (0 = unlimited for the per-minute budgets)
+ */
+export interface LaneLimits {
+  maxConcurrency: number;
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+/**
+ * Token bucket refilled continuously over one minute
+ * Takes may overdraw the bucket; later callers then wait for the debt to refill,
+ * which keeps waiters in arrival order
+ */
+class TokenBucket {
+  private available: number;
+  private updatedAt = Date.now();
+
+  constructor(private readonly perMinute: number) {
+    this.available = perMinute;
+  }
+
+  /**
+   * Take an amount and return how long to wait (ms) before it is covered
+   */
+  take(amount: number): number {
+    this.refill();
+    this.available -= amount;
+    return this.available >= 0 ? 0 : Math.ceil((-this.available / this.perMinute) * 60000);
+  }
+
+  /**
+   * Correct an earlier estimate once the real amount is known
+   */
+  adjust(delta: number): void {
+    this.refill();
+    this.available -= delta;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(
+      this.perMinute,
+      this.available + ((now - this.updatedAt) / 60000) * this.perMinute
+    );
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Scheduling state of one lane
+ */
+interface Lane {
+  key: string;
+  limits: LaneLimits;
+  active: number;
+  waiting: Array<() => void>;
+  requests: TokenBucket | null;
+  tokens: TokenBucket | null;
+  pausedUntil: number;
+}
+
+/**
+ * Lane snapshot for logging and diagnostics
+ */
+export interface LaneStatus {
+  key: string;
+  active: number;
+  queued: number;
+  paused_ms: number;
+  limits: LaneLimits;
+}
+
+/**
+ * Parse LLM_RATE_LIMITS ("provider-or-model=concurrency:rpm:tpm,...")
+ * Missing fields fall back to the global defaults
+ */
+function parseRateLimits(defaults: LaneLimits): Map<string, LaneLimits> {
+  const limits = new Map<string, LaneLimits>();
+
+  for (const entry of appConfig.llmRateLimits.split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator === -1) continue;
+
+    const key = entry.slice(0, separator).trim();
+    const [concurrency, rpm, tpm] = entry
+      .slice(separator + 1)
+      .split(':')
+      .map((value) => (value.trim() === '' ? NaN : Number(value)));
+
+    if (!key) continue;
+
+    limits.set(key, {
+      maxConcurrency:
+        concurrency !== undefined && concurrency >= 1 ? Math.floor(concurrency) : defaults.maxConcurrency,
+      requestsPerMinute: rpm !== undefined && rpm >= 0 ? rpm : defaults.requestsPerMinute,
+      tokensPerMinute: tpm !== undefined && tpm >= 0 ? tpm : defaults.tokensPerMinute,
+    });
+  }
+
+  return limits;
+}
+
+/**
+ * Error a cancelled waiter is rejected with
+ */
+function cancellation(signal?: AbortSignal): CancelledError {
+  return signal?.reason instanceof CancelledError ? signal.reason : new CancelledError();
+}
+
+/**
+ * Wait for the given time; an aborted signal rejects the wait early
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancellation(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancellation(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Scheduler class
+ */
+export class RequestScheduler {
+  private lanes = new Map<string, Lane>();
+  private limits: Map<string, LaneLimits>;
+
+  constructor(
+    private readonly defaults: LaneLimits = {
+      maxConcurrency: appConfig.llmMaxConcurrency,
+      requestsPerMinute: appConfig.llmRequestsPerMinute,
+      tokensPerMinute: appConfig.llmTokensPerMinute,
+    }
+  ) {
+    this.limits = parseRateLimits(defaults);
+  }
+
+  /**
+   * Run a provider call within the lane's limits
+   * estimatedTokens is charged up front; actualTokens (if given) corrects it afterwards.
+   * An aborted signal stops the call before it reaches the provider, including while it is
+   * queued for a slot or budget.
+   */
+  async schedule<T>(
+    provider: string,
+    model: string,
+    estimatedTokens: number,
+    task: () => Promise<T>,
+    actualTokens?: (result: T) => number | undefined,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const lane = this.laneFor(provider, model);
+    // A single call larger than the whole budget would otherwise never fit
+    const charged = Math.min(estimatedTokens, lane.limits.tokensPerMinute);
+
+    await this.acquire(lane, signal);
+    try {
+      signal?.throwIfAborted();
+      await this.waitForBudget(lane, charged, signal);
+      signal?.throwIfAborted();
+
+      const result = await task();
+
+      const actual = actualTokens?.(result);
+      if (lane.tokens && actual !== undefined) {
+        lane.tokens.adjust(actual - charged);
+      }
+
+      return result;
+    } finally {
+      this.release(lane);
+    }
+  }
+
+  /**
+   * Hold every call in the model's lane for the given time (e.g. from Retry-After)
+   */
+  pause(provider: string, model: string, ms: number): void {
+    const lane = this.laneFor(provider, model);
+    const until = Date.now() + ms;
+
+    if (until > lane.pausedUntil) {
+      lane.pausedUntil = until;
+      console.log(`[SCHEDULER] Pausing ${lane.key} for ${ms}ms`);
+    }
+  }
+
+  /**
+   * Current state of all lanes
+   */
+  status(): LaneStatus[] {
+    const now = Date.now();
+
+    return [...this.lanes.values()].map((lane) => ({
+      key: lane.key,
+      active: lane.active,
+      queued: lane.waiting.length,
+      paused_ms: Math.max(0, lane.pausedUntil - now),
+      limits: lane.limits,
+    }));
+  }
+
+  /**
+   * Lane for a call: the model's own lane if configured, else the provider's
+   */
+  private laneFor(provider: string, model: string): Lane {
+    const key = this.limits.has(model) ? model : provider;
+
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      const limits = this.limits.get(key) || this.defaults;
+      lane = {
+        key,
+        limits,
+        active: 0,
+        waiting: [],
+        requests: limits.requestsPerMinute > 0 ? new TokenBucket(limits.requestsPerMinute) : null,
+        tokens: limits.tokensPerMinute > 0 ? new TokenBucket(limits.tokensPerMinute) : null,
+        pausedUntil: 0,
+      };
+      this.lanes.set(key, lane);
+    }
+
+    return lane;
+  }
+
+  /**
+   * Wait for a free concurrency slot
+   */
+  private async acquire(lane: Lane, signal?: AbortSignal): Promise<void> {
+    if (lane.active < lane.limits.maxConcurrency) {
+      lane.active++;
+      return;
+    }
+    signal?.throwIfAborted();
+
+    // The releasing call hands its slot over directly, so active stays unchanged;
+    // a waiter cancelled before that leaves the queue without taking a slot
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        lane.waiting.splice(lane.waiting.indexOf(waiter), 1);
+        reject(cancellation(signal));
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      lane.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Free a slot, handing it to the next waiter if any
+   */
+  private release(lane: Lane): void {
+    const next = lane.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      lane.active--;
+    }
+  }
+
+  /**
+   * Wait out any pause and the request/token budgets
+   */
+  private async waitForBudget(lane: Lane, tokens: number, signal?: AbortSignal): Promise<void> {
+    const delays = [
+      lane.pausedUntil - Date.now(),
+      lane.requests?.take(1) ?? 0,
+      lane.tokens?.take(tokens) ?? 0,
+    ];
+    const wait = Math.max(...delays);
+
+    try {
+      if (wait > 0) {
+        console.log(`[SCHEDULER] ${lane.key} throttled for ${wait}ms`);
+        await delay(wait, signal);
+      }
+
+      // A pause may have been set while waiting
+      const remaining = lane.pausedUntil - Date.now();
+      if (remaining > 0) {
+        await delay(remaining, signal);
+      }
+    } catch (error) {
+      // A cancelled call never reaches the provider, so it gives its budget back
+      lane.requests?.adjust(-1);
+      lane.tokens?.adjust(-tokens);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Global scheduler instance
+ */
+export const requestScheduler = new RequestScheduler();
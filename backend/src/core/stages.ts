@@ -0,0 +1,19 @@
+/**
+ * Optimization pipeline stages
+ * Used to tag streamed output and LLM calls with the step that issued them
+ */
+
+export type PipelineStage =
+  | 'dataset_generation'
+  | 'framework_building'
+  | 'execution'
+  | 'judging'
+  | 'rsip';
+
+export const PIPELINE_STAGES: PipelineStage[] = [
+  'dataset_generation',
+  'framework_building',
+  'execution',
+  'judging',
+  'rsip',
+];
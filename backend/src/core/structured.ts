@@ -0,0 +1,63 @@
+/**
+ * Helpers for schema-validated (structured) LLM outputs
+ */
+
+import type { ZodError } from 'zod';
+
+/**
+ * Raised when a model keeps returning output that does not match the schema
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: number,
+    public readonly issues: string[],
+    public readonly lastResponse: string
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Parse the JSON value out of a model response
+ * Tolerates markdown code fences and prose around a single JSON object/array
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced?.[1]?.trim() || trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall back to the outermost object or array in the text
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      throw new Error('No JSON found in response');
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Parse the JSON value out of a text like extractJson, or undefined when there is none
+ */
+export function findJson(text: string): unknown {
+  try {
+    return extractJson(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Human-readable validation issues ("examples.3.input: Required")
+ */
+export function formatZodIssues(error: ZodError): string[] {
+  return error.issues.map((issue) => {
+    const path = issue.path.join('.');
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Token usage and cost accounting
+ * Trackers aggregate usage per pipeline stage; child trackers roll up into their parent
+ * so one run can report both per-iteration and overall totals.
+ */
+
+import { calculateCost, getModelPrice } from './pricing.js';
+import type { TokenUsage } from './providers/index.js';
+import type { PipelineStage } from './stages.js';
+
+/**
+ * Usage bucket for calls that were not tagged with a stage
+ */
+export type UsageStage = PipelineStage | 'other';
+
+/**
+ * Aggregated usage totals
+ */
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * Usage report with per-stage breakdown
+ */
+export interface UsageReport extends UsageTotals {
+  by_stage: Partial<Record<UsageStage, UsageTotals>>;
+  unpriced_models: string[];
+}
+
+/**
+ * Empty totals
+ */
+function emptyTotals(): UsageTotals {
+  return {
+    calls: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+    cost_usd: 0,
+  };
+}
+
+/**
+ * Usage Tracker class
+ */
+export class UsageTracker {
+  private totals: UsageTotals = emptyTotals();
+  private byStage = new Map<UsageStage, UsageTotals>();
+  private unpricedModels = new Set<string>();
+
+  constructor(private parent?: UsageTracker) {}
+
+  /**
+   * Record one LLM call
+   */
+  record(stage: UsageStage, model: string, usage: TokenUsage): void {
+    const cost = calculateCost(model, usage);
+
+    for (const bucket of [this.totals, this.stageTotals(stage)]) {
+      bucket.calls += 1;
+      bucket.prompt_tokens += usage.promptTokens;
+      bucket.completion_tokens += usage.completionTokens;
+      bucket.total_tokens += usage.totalTokens;
+      bucket.cost_usd += cost;
+    }
+
+    if (!getModelPrice(model) && usage.totalTokens > 0) {
+      this.unpricedModels.add(model);
+    }
+
+    this.parent?.record(stage, model, usage);
+  }
+
+  /**
+   * Serializable snapshot of the tracked usage
+   */
+  report(): UsageReport {
+    const byStage: Partial<Record<UsageStage, UsageTotals>> = {};
+    for (const [stage, totals] of this.byStage) {
+      byStage[stage] = roundTotals(totals);
+    }
+
+    return {
+      ...roundTotals(this.totals),
+      by_stage: byStage,
+      unpriced_models: [...this.unpricedModels],
+    };
+  }
+
+  private stageTotals(stage: UsageStage): UsageTotals {
+    let totals = this.byStage.get(stage);
+    if (!totals) {
+      totals = emptyTotals();
+      this.byStage.set(stage, totals);
+    }
+    return totals;
+  }
+}
+
+/**
+ * Round cost to 1/1,000,000 USD for storage and display
+ */
+function roundTotals(totals: UsageTotals): UsageTotals {
+  return {
+    ...totals,
+    cost_usd: Math.round(totals.cost_usd * 1_000_000) / 1_000_000,
+  };
+}
@@ -4,7 +4,18 @@
 
 import { ChromaClient, Collection } from 'chromadb';
 import { appConfig } from '../config.js';
-import { llmClient } from './llm-client.js';
+import {
+  createRagCollection,
+  deleteRagCollection,
+  getDocumentsByCollection,
+  getRagCollection,
+} from '../db/crud.js';
+import { getEmbeddingProvider, type EmbeddingProvider } from './embeddings.js';
+
+/**
+ * Model that embedded collections created before per-collection embedding models
+ */
+const LEGACY_EMBEDDING_MODEL = 'text-embedding-ada-002';
 
 /**
  * Vector store document
@@ -66,26 +77,55 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Embedding model of a collection
+   * Fixed when the collection is first used (the requested model, else EMBEDDING_MODEL);
+   * requesting a different model for an existing collection is an error, since vectors
+   * from different models are not comparable.
+   */
+  async getEmbeddingModel(collectionName: string, requested?: string): Promise<string> {
+    const existing = await getRagCollection(collectionName);
+    if (existing) {
+      if (requested && requested !== existing.embedding_model) {
+        throw new Error(
+          `Collection "${collectionName}" uses embedding model "${existing.embedding_model}", not "${requested}"`
+        );
+      }
+      return existing.embedding_model;
+    }
+
+    // Collections with documents but no settings row predate per-collection models
+    const hasDocuments = (await getDocumentsByCollection(collectionName)).length > 0;
+    const model = hasDocuments
+      ? LEGACY_EMBEDDING_MODEL
+      : requested || appConfig.embeddingModel;
+
+    // Validate the model ID before pinning it to the collection
+    getEmbeddingProvider(model);
+    await createRagCollection(collectionName, model);
+    console.log(`[VECTOR STORE] Collection "${collectionName}" uses embedding model ${model}`);
+
+    return model;
+  }
+
   /**
    * Add documents to collection
    */
   async addDocuments(
     collectionName: string,
-    documents: VectorDocument[]
+    documents: VectorDocument[],
+    embeddingModel?: string
   ): Promise<void> {
     if (documents.length === 0) {
       return;
     }
 
+    const embedder = await this.embedderFor(collectionName, embeddingModel);
     const collection = await this.getOrCreateCollection(collectionName);
 
     try {
       // Generate embeddings for all documents
-      const embeddings: number[][] = [];
-      for (const doc of documents) {
-        const embedding = await llmClient.embed(doc.text);
-        embeddings.push(embedding);
-      }
+      const embeddings = await embedder.embed(documents.map((d) => d.text));
 
       // Add to ChromaDB
       await collection.add({
@@ -120,11 +160,12 @@ export class VectorStore {
   ): Promise<QueryResult[]> {
     const { topK = 5, filter } = options;
 
+    const embedder = await this.embedderFor(collectionName);
     const collection = await this.getOrCreateCollection(collectionName);
 
     try {
-      // Generate query embedding
-      const queryEmbedding = await llmClient.embed(queryText);
+      // Generate query embedding (with the model the collection was built with)
+      const [queryEmbedding = []] = await embedder.embed([queryText]);
 
       // Query ChromaDB
       const results = await collection.query({
@@ -214,6 +255,7 @@ export class VectorStore {
   async deleteCollection(name: string): Promise<void> {
     try {
       await this.client.deleteCollection({ name });
+      await deleteRagCollection(name);
       this.collections.delete(name);
       console.log(`[VECTOR STORE] Deleted collection "${name}"`);
     } catch (error) {
@@ -225,6 +267,13 @@ export class VectorStore {
     }
   }
 
+  /**
+   * Embedding provider for a collection's model
+   */
+  private async embedderFor(collectionName: string, requested?: string): Promise<EmbeddingProvider> {
+    return getEmbeddingProvider(await this.getEmbeddingModel(collectionName, requested));
+  }
+
   /**
    * Get collection count
    */
@@ -3,17 +3,22 @@
  */
 
 import { nanoid } from 'nanoid';
-import { query, execute } from './database.js';
+import { query, execute, transaction } from './database.js';
 
 /**
  * Database entity types
  */
+export type PromptStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
 export interface DbPrompt {
   id: string;
   original_prompt: string;
   selected_framework: string;
   techniques_enabled: string; // JSON array
   parameters_json: string; // JSON object
+  usage_json: string | null; // JSON object
+  dataset_id: string | null;
+  status: PromptStatus;
   created_at: string;
   updated_at: string;
 }
@@ -28,12 +33,13 @@ export interface DbVersion {
   techniques_applied: string | null; // JSON array
   critique: string | null;
   improvements: string | null;
+  usage_json: string | null; // JSON object
   created_at: string;
 }
 
 export interface DbDataset {
   id: string;
-  prompt_id: string;
+  prompt_id: string | null; // null for uploaded datasets
   domain: string;
   example_count: number;
   difficulty_levels: string; // JSON array
@@ -51,6 +57,19 @@ export interface DbExample {
   created_at: string;
 }
 
+export interface DbEvaluation {
+  id: string;
+  dataset_id: string;
+  version_id: string | null;
+  prompt_text: string;
+  parameters_json: string; // JSON object
+  metrics_json: string; // JSON object
+  evaluation_details: string; // JSON array
+  judge_failures_json: string; // JSON object
+  usage_json: string | null; // JSON object
+  created_at: string;
+}
+
 export interface DbDocument {
   id: string;
   collection_name: string;
@@ -69,6 +88,23 @@ export interface DbDocumentChunk {
   created_at: string;
 }
 
+export interface DbRagCollection {
+  name: string;
+  embedding_model: string;
+  created_at: string;
+}
+
+export interface DbCompletionCacheEntry {
+  key: string;
+  model: string;
+  response_json: string; // JSON object
+  size_bytes: number;
+  hit_count: number;
+  created_at: string;
+  last_accessed_at: string;
+  expires_at: string | null;
+}
+
 /**
  * Prompts CRUD
  */
@@ -77,19 +113,21 @@ export async function createPrompt(data: {
   selectedFramework: string;
   techniquesEnabled: string[];
   parameters: any;
+  datasetId?: string;
 }): Promise<string> {
   const id = nanoid();
   const now = new Date().toISOString();
 
   await execute(
-    `INSERT INTO prompts (id, original_prompt, selected_framework, techniques_enabled, parameters_json, created_at, updated_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO prompts (id, original_prompt, selected_framework, techniques_enabled, parameters_json, dataset_id, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, 'running', ?, ?)`,
     [
       id,
       data.originalPrompt,
       data.selectedFramework,
       JSON.stringify(data.techniquesEnabled),
       JSON.stringify(data.parameters),
+      data.datasetId ?? null,
       now,
       now,
     ]
@@ -114,6 +152,8 @@ export async function updatePrompt(
   data: Partial<{
     techniquesEnabled: string[];
     parameters: any;
+    usage: any;
+    status: PromptStatus;
   }>
 ): Promise<void> {
   const updates: string[] = [];
@@ -129,6 +169,16 @@ export async function updatePrompt(
     params.push(JSON.stringify(data.parameters));
   }
 
+  if (data.usage) {
+    updates.push('usage_json = ?');
+    params.push(JSON.stringify(data.usage));
+  }
+
+  if (data.status) {
+    updates.push('status = ?');
+    params.push(data.status);
+  }
+
   if (updates.length > 0) {
     updates.push('updated_at = ?');
     params.push(new Date().toISOString());
@@ -153,13 +203,14 @@ export async function createVersion(data: {
   techniquesApplied?: string[];
   critique?: string;
   improvements?: string;
+  usage?: any;
 }): Promise<string> {
   const id = nanoid();
   const now = new Date().toISOString();
 
   await execute(
-    `INSERT INTO versions (id, prompt_id, iteration_number, prompt_text, metrics_json, evaluation_details, techniques_applied, critique, improvements, created_at)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    `INSERT INTO versions (id, prompt_id, iteration_number, prompt_text, metrics_json, evaluation_details, techniques_applied, critique, improvements, usage_json, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
     [
       id,
       data.promptId,
@@ -170,6 +221,7 @@ export async function createVersion(data: {
       data.techniquesApplied ? JSON.stringify(data.techniquesApplied) : null,
       data.critique || null,
       data.improvements || null,
+      data.usage ? JSON.stringify(data.usage) : null,
       now,
     ]
   );
@@ -206,7 +258,7 @@ export async function getVersionsByPromptId(
  * Datasets CRUD
  */
 export async function createDataset(data: {
-  promptId: string;
+  promptId: string | null;
   domain: string;
   exampleCount: number;
   difficultyLevels: string[];
@@ -253,7 +305,7 @@ export async function getDatasetsByPrompt(promptId: string): Promise<DbDataset[]
 export async function createExample(data: {
   datasetId: string;
   inputText: string;
-  expectedOutput?: string;
+  expectedOutput?: string | null;
   difficulty: string;
   metadata?: any;
 }): Promise<string> {
@@ -286,6 +338,54 @@ export async function getExamplesByDataset(
   );
 }
 
+/**
+ * Evaluations CRUD
+ */
+export async function createEvaluation(data: {
+  datasetId: string;
+  versionId?: string;
+  promptText: string;
+  parameters: any;
+  metrics: any;
+  evaluationDetails: any;
+  judgeFailures: any;
+  usage?: any;
+}): Promise<string> {
+  const id = nanoid();
+  const now = new Date().toISOString();
+
+  await execute(
+    `INSERT INTO evaluations (id, dataset_id, version_id, prompt_text, parameters_json, metrics_json, evaluation_details, judge_failures_json, usage_json, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      id,
+      data.datasetId,
+      data.versionId || null,
+      data.promptText,
+      JSON.stringify(data.parameters),
+      JSON.stringify(data.metrics),
+      JSON.stringify(data.evaluationDetails),
+      JSON.stringify(data.judgeFailures),
+      data.usage ? JSON.stringify(data.usage) : null,
+      now,
+    ]
+  );
+
+  return id;
+}
+
+export async function getEvaluation(id: string): Promise<DbEvaluation | null> {
+  const results = await query<DbEvaluation>('SELECT * FROM evaluations WHERE id = ?', [id]);
+  return results[0] || null;
+}
+
+export async function getEvaluationsByDataset(datasetId: string): Promise<DbEvaluation[]> {
+  return await query<DbEvaluation>(
+    'SELECT * FROM evaluations WHERE dataset_id = ? ORDER BY created_at DESC',
+    [datasetId]
+  );
+}
+
 /**
  * Documents CRUD
  */
@@ -378,3 +478,118 @@ export async function updateChunkEmbedding(
   );
 }
 
+/**
+ * RAG collections CRUD
+ */
+export async function getRagCollection(name: string): Promise<DbRagCollection | null> {
+  const results = await query<DbRagCollection>('SELECT * FROM rag_collections WHERE name = ?', [
+    name,
+  ]);
+  return results[0] || null;
+}
+
+export async function createRagCollection(name: string, embeddingModel: string): Promise<void> {
+  await execute(
+    'INSERT INTO rag_collections (name, embedding_model, created_at) VALUES (?, ?, ?)',
+    [name, embeddingModel, new Date().toISOString()]
+  );
+}
+
+export async function deleteRagCollection(name: string): Promise<void> {
+  await execute('DELETE FROM rag_collections WHERE name = ?', [name]);
+}
+
+/**
+ * Completion cache CRUD
+ */
+export async function getCacheEntry(key: string): Promise<DbCompletionCacheEntry | null> {
+  const results = await query<DbCompletionCacheEntry>(
+    'SELECT * FROM completion_cache WHERE key = ?',
+    [key]
+  );
+  return results[0] || null;
+}
+
+export async function upsertCacheEntry(data: {
+  key: string;
+  model: string;
+  response: any;
+  expiresAt: string | null;
+}): Promise<void> {
+  const now = new Date().toISOString();
+  const responseJson = JSON.stringify(data.response);
+
+  await execute(
+    `INSERT OR REPLACE INTO completion_cache (key, model, response_json, size_bytes, hit_count, created_at, last_accessed_at, expires_at)
+     VALUES (?, ?, ?, ?, 0, ?, ?, ?)`,
+    [data.key, data.model, responseJson, Buffer.byteLength(responseJson), now, now, data.expiresAt]
+  );
+}
+
+export async function touchCacheEntries(
+  touches: Array<{ key: string; hits: number; lastAccessedAt: string }>
+): Promise<void> {
+  if (touches.length === 0) {
+    return;
+  }
+
+  await transaction(async (db) => {
+    for (const touch of touches) {
+      db.run(
+        'UPDATE completion_cache SET hit_count = hit_count + ?, last_accessed_at = ? WHERE key = ?',
+        [touch.hits, touch.lastAccessedAt, touch.key]
+      );
+    }
+  });
+}
+
+export async function deleteCacheEntries(keys: string[]): Promise<void> {
+  if (keys.length === 0) {
+    return;
+  }
+
+  await execute(
+    `DELETE FROM completion_cache WHERE key IN (${keys.map(() => '?').join(', ')})`,
+    keys
+  );
+}
+
+export async function getExpiredCacheEntries(
+  now: string
+): Promise<Array<Pick<DbCompletionCacheEntry, 'key' | 'size_bytes'>>> {
+  return await query<Pick<DbCompletionCacheEntry, 'key' | 'size_bytes'>>(
+    'SELECT key, size_bytes FROM completion_cache WHERE expires_at IS NOT NULL AND expires_at <= ?',
+    [now]
+  );
+}
+
+export async function getCacheEntriesByAccess(): Promise<
+  Array<Pick<DbCompletionCacheEntry, 'key' | 'size_bytes'>>
+> {
+  return await query<Pick<DbCompletionCacheEntry, 'key' | 'size_bytes'>>(
+    'SELECT key, size_bytes FROM completion_cache ORDER BY last_accessed_at ASC'
+  );
+}
+
+export async function getCacheTotals(): Promise<{
+  entries: number;
+  size_bytes: number;
+  hit_count: number;
+}> {
+  const results = await query<{ entries: number; size_bytes: number | null; hit_count: number | null }>(
+    'SELECT COUNT(*) AS entries, SUM(size_bytes) AS size_bytes, SUM(hit_count) AS hit_count FROM completion_cache'
+  );
+  const row = results[0];
+
+  return {
+    entries: row?.entries || 0,
+    size_bytes: row?.size_bytes || 0,
+    hit_count: row?.hit_count || 0,
+  };
+}
+
+export async function clearCacheEntries(): Promise<number> {
+  const { entries } = await getCacheTotals();
+  await execute('DELETE FROM completion_cache');
+  return entries;
+}
@@ -11,6 +11,81 @@ import { appConfig } from '../config.js';
 
 let dbInstance: Database | null = null;
 
+/**
+ * Columns added after the initial schema
+ * CREATE TABLE IF NOT EXISTS leaves existing tables untouched, so databases created
+ * before a column existed get it added here
+ */
+const COLUMN_MIGRATIONS: Array<{ table: string; column: string; definition: string }> = [
+  { table: 'prompts', column: 'usage_json', definition: 'TEXT' },
+  { table: 'versions', column: 'usage_json', definition: 'TEXT' },
+  // Runs stored before status tracking all ran to completion
+  { table: 'prompts', column: 'status', definition: "TEXT NOT NULL DEFAULT 'completed'" },
+  { table: 'prompts', column: 'dataset_id', definition: 'TEXT' },
+];
+
+/**
+ * Columns whose NOT NULL constraint was dropped after the initial schema
+ * SQLite cannot alter a column's constraints, so the table is rebuilt from its current
+ * schema definition and its rows copied over
+ */
+const NULLABLE_MIGRATIONS: Array<{ table: string; column: string }> = [
+  // Uploaded datasets do not belong to a prompt
+  { table: 'datasets', column: 'prompt_id' },
+];
+
+/**
+ * Add any missing columns to existing tables
+ */
+function migrateColumns(db: Database): void {
+  for (const { table, column, definition } of COLUMN_MIGRATIONS) {
+    const info = db.exec(`PRAGMA table_info(${table})`);
+    const columns = info[0]?.values.map((row) => row[1]) || [];
+
+    if (!columns.includes(column)) {
+      db.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`[DATABASE] Added column ${table}.${column}`);
+    }
+  }
+}
+
+/**
+ * Rebuild tables that still have a NOT NULL constraint the schema has dropped
+ * Indexes go with the old table; executing the schema again recreates them
+ */
+function migrateNullableColumns(db: Database, schema: string): void {
+  for (const { table, column } of NULLABLE_MIGRATIONS) {
+    const info = db.exec(`PRAGMA table_info(${table})`)[0];
+    // PRAGMA table_info rows: cid, name, type, notnull, dflt_value, pk
+    const row = info?.values.find((values) => values[1] === column);
+    if (!info || !row || row[3] !== 1) {
+      continue;
+    }
+
+    const definition = schema.match(
+      new RegExp(`CREATE TABLE IF NOT EXISTS ${table} \\([\\s\\S]*?\\n\\);`)
+    );
+    if (!definition) {
+      throw new Error(`No schema definition found for table ${table}`);
+    }
+    const columns = info.values.map((values) => values[1]).join(', ');
+
+    db.run('BEGIN TRANSACTION');
+    try {
+      db.run(definition[0].replace(`IF NOT EXISTS ${table}`, `${table}_new`));
+      db.run(`INSERT INTO ${table}_new (${columns}) SELECT ${columns} FROM ${table}`);
+      db.run(`DROP TABLE ${table}`);
+      db.run(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+    db.exec(schema);
+    console.log(`[DATABASE] Dropped NOT NULL from ${table}.${column}`);
+  }
+}
+
 /**
  * Initialize the SQLite database
  */
@@ -48,6 +123,8 @@ export async function initDatabase(): Promise<Database> {
 
     // Execute schema (create tables if they don't exist)
     db.exec(schema);
+    migrateColumns(db);
+    migrateNullableColumns(db, schema);
     console.log('[DATABASE] Schema initialized successfully');
 
     // Save database to disk
@@ -8,6 +8,9 @@ CREATE TABLE IF NOT EXISTS prompts (
     selected_framework TEXT NOT NULL, -- RACE, COSTAR, APE, CREATE
     techniques_enabled TEXT NOT NULL, -- JSON array of enabled techniques
     parameters_json TEXT NOT NULL, -- JSON object with LLM parameters
+    usage_json TEXT, -- JSON object with token usage and cost for the whole run
+    dataset_id TEXT, -- Stored dataset the run was evaluated on (set when one was provided)
+    status TEXT NOT NULL DEFAULT 'running', -- running, completed, cancelled, failed
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL
 );
@@ -23,14 +26,15 @@ CREATE TABLE IF NOT EXISTS versions (
     techniques_applied TEXT, -- JSON array of techniques used
     critique TEXT, -- RSIP critique
     improvements TEXT, -- RSIP improvements summary
+    usage_json TEXT, -- JSON object with token usage and cost for this iteration
     created_at TEXT NOT NULL,
     FOREIGN KEY (prompt_id) REFERENCES prompts(id) ON DELETE CASCADE
 );
 
--- Datasets table: Stores generated evaluation datasets
+-- Datasets table: Stores generated and uploaded evaluation datasets
 CREATE TABLE IF NOT EXISTS datasets (
     id TEXT PRIMARY KEY,
-    prompt_id TEXT NOT NULL,
+    prompt_id TEXT, -- NULL for uploaded datasets
     domain TEXT NOT NULL, -- Identified domain/task type
     example_count INTEGER NOT NULL,
     difficulty_levels TEXT NOT NULL, -- JSON array of difficulty levels
@@ -51,6 +55,21 @@ CREATE TABLE IF NOT EXISTS examples (
     FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE
 );
 
+-- Evaluations table: Standalone scoring of a prompt against a stored dataset
+CREATE TABLE IF NOT EXISTS evaluations (
+    id TEXT PRIMARY KEY,
+    dataset_id TEXT NOT NULL,
+    version_id TEXT, -- Set when an existing version was evaluated
+    prompt_text TEXT NOT NULL,
+    parameters_json TEXT NOT NULL, -- JSON object with LLM parameters and metric selection
+    metrics_json TEXT NOT NULL, -- JSON object with aggregate metrics
+    evaluation_details TEXT NOT NULL, -- JSON array with per-example breakdown
+    judge_failures_json TEXT NOT NULL, -- JSON object with failed judgments per metric
+    usage_json TEXT, -- JSON object with token usage and cost
+    created_at TEXT NOT NULL,
+    FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE
+);
+
 -- Documents table: RAG document storage
 CREATE TABLE IF NOT EXISTS documents (
     id TEXT PRIMARY KEY,
@@ -72,11 +91,31 @@ CREATE TABLE IF NOT EXISTS document_chunks (
     FOREIGN KEY (document_id) REFERENCES documents(id) ON DELETE CASCADE
 );
 
+-- RAG collections table: Per-collection settings
+CREATE TABLE IF NOT EXISTS rag_collections (
+    name TEXT PRIMARY KEY,
+    embedding_model TEXT NOT NULL, -- Fixed at creation; vectors from different models don't mix
+    created_at TEXT NOT NULL
+);
+
+-- Completion cache table: Responses of deterministic LLM calls keyed by request hash
+CREATE TABLE IF NOT EXISTS completion_cache (
+    key TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    response_json TEXT NOT NULL, -- JSON object (provider completion response)
+    size_bytes INTEGER NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    last_accessed_at TEXT NOT NULL,
+    expires_at TEXT -- NULL = never expires
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_versions_prompt_id ON versions(prompt_id);
 CREATE INDEX IF NOT EXISTS idx_versions_iteration ON versions(iteration_number);
 CREATE INDEX IF NOT EXISTS idx_datasets_prompt_id ON datasets(prompt_id);
 CREATE INDEX IF NOT EXISTS idx_examples_dataset_id ON examples(dataset_id);
+CREATE INDEX IF NOT EXISTS idx_evaluations_dataset_id ON evaluations(dataset_id);
 CREATE INDEX IF NOT EXISTS idx_documents_collection ON documents(collection_name);
 CREATE INDEX IF NOT EXISTS idx_chunks_document_id ON document_chunks(document_id);
-
+CREATE INDEX IF NOT EXISTS idx_completion_cache_accessed ON completion_cache(last_accessed_at);
@@ -17,23 +17,48 @@ Given a user prompt, your task is to:
 User Prompt:
 {user_prompt}
 
-Generate a JSON array of test examples in this exact format:
-[
-  {
-    "input": "specific test input",
-    "expected_output": "ideal response",
-    "difficulty": "easy|medium|hard",
-    "tags": ["relevant", "tags"]
-  }
-]
+Generate a JSON object with the test examples in this exact format:
+{
+  "examples": [
+    {
+      "input": "specific test input",
+      "expected_output": "ideal response",
+      "difficulty": "easy|medium|hard",
+      "tags": ["relevant", "tags"],
+      "assertions": [{"type": "contains", "value": "required phrase"}]
+    }
+  ]
+}
 
 Requirements:
 - Examples should cover different aspects of the task
 - Vary complexity and edge cases
 - Include realistic scenarios
 - Expected outputs should be high-quality examples
+- Only add "assertions" for hard requirements the prompt states (format, length, required or
+  forbidden content), so any correct output passes them. Types:
+  {"type": "contains" | "not_contains" | "starts_with", "value": "text"},
+  {"type": "regex", "pattern": "regular expression", "flags": "i"},
+  {"type": "json_parses"}, {"type": "json_schema", "schema": {JSON Schema}},
+  {"type": "max_length", "value": 100, "unit": "characters" | "words"}{code_tests}
 
-Generate the test examples now as a JSON array:`;
+Generate the test examples now as a JSON object:`;
+
+/**
+ * Fills {code_tests} in the dataset generation prompt for code-generation tasks
+ * The tests are run against the code in each output (see core/sandbox.ts)
+ */
+export const CODE_TESTS_INSTRUCTIONS = `
+
+This is a code-generation task. If solutions are written in JavaScript, also give every
+example a "tests" array so outputs can be executed:
+- Each input must name the function (or class) the solution has to define
+- Each test is {"name": "short description", "code": "JavaScript statement(s)"} that call the
+  solution and throw on failure, using assert(condition, message), assert.equal(actual, expected)
+  or assert.deepEqual(actual, expected); async code may return a promise
+- Tests run without require, I/O or network access
+- Cover normal cases and edge cases (2-5 tests per example)
+Omit "tests" if solutions are not JavaScript.`;
 
 /**
  * Evaluation criteria generation meta-prompt
@@ -47,14 +72,16 @@ User Prompt:
 
 Domain: {domain}
 
-Generate a JSON array of evaluation criteria in this exact format:
-[
-  {
-    "name": "criterion_name",
-    "description": "what this measures",
-    "weight": 1.0
-  }
-]
+Generate a JSON object with the evaluation criteria in this exact format:
+{
+  "criteria": [
+    {
+      "name": "criterion_name",
+      "description": "what this measures",
+      "weight": 1.0
+    }
+  ]
+}
 
 Standard criteria to always include:
 1. Relevance (how well output addresses the input)
@@ -65,5 +92,5 @@ Standard criteria to always include:
 
 Add 1-2 domain-specific criteria if relevant.
 
-Generate the criteria now as a JSON array:`;
+Generate the criteria now as a JSON object:`;
 
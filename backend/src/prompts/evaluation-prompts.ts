@@ -2,6 +2,16 @@
  * Meta-prompts for LLM-as-judge evaluation
  */
 
+/**
+ * Response format shared by the single-score judges
+ */
+const VERDICT_FORMAT = `Respond with a JSON object in this exact format:
+{"score": 72, "rationale": "One or two sentences explaining the score", "issues": ["Specific problem in the output"]}
+
+- score: integer from 0 to 100
+- rationale: why the output earned this score
+- issues: concrete problems found (empty array if none)`;
+
 /**
  * Relevance evaluation prompt
  */
@@ -16,9 +26,7 @@ Consider:
 - Is it on-topic and focused?
 - Does it answer what was asked?
 
-Respond with ONLY a number between 0 and 100. No explanation.
-
-Score:`;
+${VERDICT_FORMAT}`;
 
 /**
  * Accuracy evaluation prompt (with expected output)
@@ -36,9 +44,7 @@ Consider:
 - Alignment with expected output
 - No hallucinations or errors
 
-Respond with ONLY a number between 0 and 100. No explanation.
-
-Score:`;
+${VERDICT_FORMAT}`;
 
 /**
  * Readability evaluation prompt
@@ -53,7 +59,59 @@ Consider:
 - Good grammar and formatting
 - Appropriate tone and style
 
-Respond with ONLY a number between 0 and 100. No explanation.
+${VERDICT_FORMAT}`;
+
+/**
+ * Rubric evaluation prompt (scores one output against the dataset's generated criteria)
+ */
+export const RUBRIC_EVALUATION_PROMPT = `You are an expert evaluator. Score the output against each criterion below on a scale of 0-100.
+
+Input: {input}
+
+Output: {output}
+
+Criteria:
+{criteria}
+
+Judge each criterion independently, using only its description.
+
+Respond with a JSON object in this exact format (one entry per criterion, names exactly as listed):
+{"scores": [{"criterion": "criterion name", "score": 85}]}`;
+
+/**
+ * Consistency agreement prompt (short answers from repeated runs of the same input)
+ */
+export const CONSISTENCY_AGREEMENT_PROMPT = `You are an expert evaluator. The same prompt was run several times on the same input. Rate on a scale of 0-100 how much these answers agree with each other in substance (same conclusion, facts and decisions), ignoring wording and formatting.
+
+{answers}
+
+${VERDICT_FORMAT}`;
+
+/**
+ * Custom metric prompt (wraps the instructions of a user-defined judge metric)
+ */
+export const CUSTOM_METRIC_EVALUATION_PROMPT = `You are an expert evaluator. Score the output on a scale of 0-100 following these instructions:
+
+{instructions}
+
+${VERDICT_FORMAT}`;
+
+/**
+ * Pairwise comparison prompt (which of two outputs for the same input is better)
+ */
+export const PAIRWISE_COMPARISON_PROMPT = `You are an expert evaluator. Two prompt versions were run on the same input. Decide which output is better overall: more relevant, accurate, complete and clearly written. Reference answer: treat it as a guide to what a good output contains, not as text to match.
+
+Input: {input}
+
+Reference Answer: {expected_output}
+
+Output A: {output_a}
+
+Output B: {output_b}
+
+Judge only the content. The order of the outputs and their length say nothing about quality. Answer "tie" only when neither output is meaningfully better.
 
-Score:`;
+Respond with a JSON object in this exact format:
+{"winner": "A", "rationale": "One or two sentences explaining the decision"}
 
+- winner: "A", "B" or "tie"`;
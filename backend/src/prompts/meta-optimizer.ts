@@ -14,20 +14,15 @@ Analyze this prompt and identify 3-5 specific weaknesses or areas for improvemen
 {prompt}
 </prompt>
 
-Current Metrics:
-- Relevance: {relevance}/100
-- Accuracy: {accuracy}/100
-- Consistency: {consistency}/100
-- Efficiency: {efficiency}/100
-- Readability: {readability}/100
-
-Focus on:
+{metrics}{judge_feedback}Focus on:
 1. Clarity and specificity
 2. Missing context or constraints
 3. Ambiguous instructions
 4. Potential for better structure
 5. Opportunities for improvement
 
+Where judge feedback is given, trace each low score back to the part of the prompt that caused it.
+
 Provide a structured critique with specific, actionable points.
 
 Critique:`;
@@ -8,13 +8,18 @@ import cors from '@fastify/cors';
 import { appConfig, isDevelopment } from './config.js';
 import { authMiddleware } from './api/middleware/auth.js';
 import { initDatabase } from './db/database.js';
+import { completionCache } from './core/completion-cache.js';
 import { frameworksRoutes } from './api/routes/frameworks.js';
 import { techniquesRoutes } from './api/routes/techniques.js';
+import { metricsRoutes } from './api/routes/metrics.js';
 import { optimizationRoutes } from './api/routes/optimization.js';
+import { evaluationRoutes } from './api/routes/evaluation.js';
+import { datasetsRoutes } from './api/routes/datasets.js';
 import { versionsRoutes } from './api/routes/versions.js';
 import { ragRoutes } from './api/routes/rag.js';
 import { modelsRoutes } from './api/routes/models.js';
 import { historyRoutes } from './api/routes/history.js';
+import { adminRoutes } from './api/routes/admin.js';
 
 /**
  * Create and configure Fastify instance
@@ -82,14 +87,23 @@ server.get('/', async () => {
  */
 await server.register(frameworksRoutes);
 await server.register(techniquesRoutes);
+await server.register(metricsRoutes);
 await server.register(modelsRoutes);
 await server.register(optimizationRoutes);
+await server.register(evaluationRoutes);
+await server.register(datasetsRoutes);
 await server.register(versionsRoutes);
 await server.register(ragRoutes);
 await server.register(historyRoutes);
+await server.register(adminRoutes);
 
 console.log('[SERVER] All routes registered');
 
+// Write the completion cache hits recorded since its last flush
+server.addHook('onClose', async () => {
+  await completionCache.flush();
+});
+
 /**
  * Start the server
  */
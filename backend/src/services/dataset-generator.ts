@@ -3,31 +3,65 @@
  * Generates synthetic test datasets for prompt evaluation
  */
 
-import { llmClient } from '../core/llm-client.js';
+import { z } from 'zod';
+import { llmClient, type CallContext } from '../core/llm-client.js';
 import {
   DATASET_GENERATION_PROMPT,
   CRITERIA_GENERATION_PROMPT,
+  CODE_TESTS_INSTRUCTIONS,
 } from '../prompts/dataset-generation.js';
-import { createDataset, createExample } from '../db/crud.js';
+import { createDataset, createExample, getDataset, getExamplesByDataset } from '../db/crud.js';
+import { AssertionSchema } from '../utils/assertions.js';
+
+/**
+ * Test case schema (JavaScript run against the code in an output)
+ */
+export const CodeTestSchema = z.object({
+  name: z.string().optional(),
+  code: z.string().min(1),
+});
+
+/**
+ * Example schema (validates generated examples)
+ */
+const ExampleSchema = z.object({
+  input: z.string().min(1),
+  expected_output: z.string().min(1),
+  difficulty: z.preprocess(
+    (value) => (typeof value === 'string' ? value.toLowerCase() : value),
+    z.enum(['easy', 'medium', 'hard'])
+  ),
+  tags: z.array(z.string()).optional(),
+  tests: z.array(CodeTestSchema).optional(), // Only for code-generation datasets
+  // Invalid assertions are dropped rather than failing the whole dataset
+  assertions: z.array(AssertionSchema).optional().catch(undefined),
+});
+
+/**
+ * Evaluation criterion schema
+ */
+export const CriterionSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().min(1),
+  weight: z.coerce.number().positive(),
+});
 
 /**
  * Example interface
  */
-export interface Example {
-  input: string;
-  expected_output: string;
-  difficulty: 'easy' | 'medium' | 'hard';
-  tags?: string[];
-}
+export type Example = z.infer<typeof ExampleSchema>;
 
 /**
  * Evaluation criterion interface
  */
-export interface Criterion {
-  name: string;
-  description: string;
-  weight: number;
-}
+export type Criterion = z.infer<typeof CriterionSchema>;
+
+/**
+ * Example as stored (uploaded examples may have no expected output)
+ */
+export type StoredExample = Omit<Example, 'expected_output'> & {
+  expected_output?: string | null;
+};
 
 /**
  * Dataset result interface
@@ -35,8 +69,82 @@ export interface Criterion {
 export interface DatasetResult {
   id: string;
   domain: string;
-  examples: Example[];
+  examples: StoredExample[];
+  criteria: Criterion[];
+}
+
+/**
+ * Whether an identified domain is code generation (outputs can then be executed)
+ */
+export function isCodeGenerationDomain(domain: string): boolean {
+  return /\b(code|coding|programming|software|function|algorithms?)\b/i.test(domain);
+}
+
+/**
+ * Store a dataset and its examples; tags, tests and assertions go in the example metadata
+ */
+export async function storeDataset(data: {
+  promptId: string | null;
+  domain: string;
+  examples: StoredExample[];
+  difficultyLevels: string[];
   criteria: Criterion[];
+}): Promise<string> {
+  const datasetId = await createDataset({
+    promptId: data.promptId,
+    domain: data.domain,
+    exampleCount: data.examples.length,
+    difficultyLevels: data.difficultyLevels,
+    criteria: data.criteria,
+  });
+
+  for (const example of data.examples) {
+    await createExample({
+      datasetId,
+      inputText: example.input || 'No input provided',
+      expectedOutput: example.expected_output,
+      difficulty: example.difficulty || 'medium',
+      metadata: {
+        tags: example.tags || [],
+        ...(example.tests && { tests: example.tests }),
+        ...(example.assertions && { assertions: example.assertions }),
+      },
+    });
+  }
+
+  return datasetId;
+}
+
+/**
+ * Load a stored dataset (null when it does not exist)
+ */
+export async function loadDataset(datasetId: string): Promise<DatasetResult | null> {
+  const dataset = await getDataset(datasetId);
+  if (!dataset) {
+    return null;
+  }
+
+  const rows = await getExamplesByDataset(dataset.id);
+  const examples: StoredExample[] = rows.map((row) => {
+    const metadata: Pick<Example, 'tags' | 'tests' | 'assertions'> = row.metadata_json
+      ? JSON.parse(row.metadata_json)
+      : {};
+    return {
+      input: row.input_text,
+      expected_output: row.expected_output,
+      difficulty: row.difficulty as Example['difficulty'],
+      tags: metadata.tags,
+      tests: metadata.tests,
+      assertions: metadata.assertions,
+    };
+  });
+
+  return {
+    id: dataset.id,
+    domain: dataset.domain,
+    examples,
+    criteria: JSON.parse(dataset.criteria_json),
+  };
 }
 
 /**
@@ -46,7 +154,7 @@ export class DatasetGenerator {
   /**
    * Identify the domain/task type from a prompt
    */
-  private async identifyDomain(prompt: string): Promise<string> {
+  private async identifyDomain(prompt: string, context: CallContext): Promise<string> {
     const domainPrompt = `Analyze this prompt and identify its domain/task type in 2-3 words (e.g., "code generation", "content writing", "data analysis"):
 
 Prompt: ${prompt}
@@ -54,6 +162,8 @@ Prompt: ${prompt}
 Domain:`;
 
     const domain = await llmClient.complete(domainPrompt, {
+      ...context,
+      stage: 'dataset_generation',
       temperature: 0.3,
       maxTokens: 4000, // High limit for reasoning models (GPT-5: 128K available)
     });
@@ -67,40 +177,30 @@ Domain:`;
   private async generateExamples(
     prompt: string,
     exampleCount: number,
-    difficultyLevels: string[]
+    difficultyLevels: string[],
+    context: CallContext,
+    withTests: boolean = false
   ): Promise<Example[]> {
     const metaPrompt = DATASET_GENERATION_PROMPT.replace(
       '{user_prompt}',
       prompt
     )
       .replace('{example_count}', exampleCount.toString())
-      .replace('{difficulty_levels}', difficultyLevels.join(', '));
+      .replace('{difficulty_levels}', difficultyLevels.join(', '))
+      .replace('{code_tests}', withTests ? CODE_TESTS_INSTRUCTIONS : '');
 
-    const response = await llmClient.complete(metaPrompt, {
-      temperature: 0.8,
-      maxTokens: 32000, // Very high for complex dataset generation
-    });
-
-    try {
-      // Extract JSON from response
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array found in response');
-      }
-
-      const examples: Example[] = JSON.parse(jsonMatch[0]);
-
-      // Validate examples
-      if (!Array.isArray(examples) || examples.length === 0) {
-        throw new Error('Invalid examples format');
+    const { examples } = await llmClient.completeStructured(
+      metaPrompt,
+      z.object({ examples: z.array(ExampleSchema).min(exampleCount) }),
+      {
+        ...context,
+        stage: 'dataset_generation',
+        temperature: 0.8,
+        maxTokens: 32000, // Very high for complex dataset generation
       }
+    );
 
-      return examples;
-    } catch (error) {
-      console.error('[DATASET GENERATOR] Failed to parse examples:', error);
-      // Return fallback examples
-      return this.getFallbackExamples(prompt, exampleCount);
-    }
+    return examples.slice(0, exampleCount);
   }
 
   /**
@@ -108,38 +208,26 @@ Domain:`;
    */
   private async generateCriteria(
     prompt: string,
-    domain: string
+    domain: string,
+    context: CallContext
   ): Promise<Criterion[]> {
     const metaPrompt = CRITERIA_GENERATION_PROMPT.replace(
       '{user_prompt}',
       prompt
     ).replace('{domain}', domain);
 
-    const response = await llmClient.complete(metaPrompt, {
-      temperature: 0.5,
-      maxTokens: 16000, // High limit for criteria generation
-    });
-
-    try {
-      // Extract JSON from response
-      const jsonMatch = response.match(/\[[\s\S]*\]/);
-      if (!jsonMatch) {
-        throw new Error('No JSON array found in response');
-      }
-
-      const criteria: Criterion[] = JSON.parse(jsonMatch[0]);
-
-      // Validate criteria
-      if (!Array.isArray(criteria) || criteria.length === 0) {
-        throw new Error('Invalid criteria format');
+    const { criteria } = await llmClient.completeStructured(
+      metaPrompt,
+      z.object({ criteria: z.array(CriterionSchema).min(1) }),
+      {
+        ...context,
+        stage: 'dataset_generation',
+        temperature: 0.5,
+        maxTokens: 16000, // High limit for criteria generation
       }
+    );
 
-      return criteria;
-    } catch (error) {
-      console.error('[DATASET GENERATOR] Failed to parse criteria:', error);
-      // Return default criteria
-      return this.getDefaultCriteria();
-    }
+    return criteria;
   }
 
   /**
@@ -151,49 +239,38 @@ Domain:`;
     config: {
       exampleCount: number;
       difficultyLevels: string[];
-    }
+    },
+    context: CallContext = {}
   ): Promise<DatasetResult> {
     console.log(`[DATASET GENERATOR] Generating dataset for prompt ${promptId}...`);
 
     // Identify domain
-    const domain = await this.identifyDomain(userPrompt);
+    const domain = await this.identifyDomain(userPrompt, context);
     console.log(`[DATASET GENERATOR] Domain identified: ${domain}`);
 
     // Generate examples
     const examples = await this.generateExamples(
       userPrompt,
       config.exampleCount,
-      config.difficultyLevels
+      config.difficultyLevels,
+      context,
+      isCodeGenerationDomain(domain)
     );
     console.log(`[DATASET GENERATOR] Generated ${examples.length} examples`);
 
     // Generate criteria
-    const criteria = await this.generateCriteria(userPrompt, domain);
+    const criteria = await this.generateCriteria(userPrompt, domain, context);
     console.log(`[DATASET GENERATOR] Generated ${criteria.length} criteria`);
 
     // Store in database
-    const datasetId = await createDataset({
+    const datasetId = await storeDataset({
       promptId,
       domain,
-      exampleCount: examples.length,
+      examples,
       difficultyLevels: config.difficultyLevels,
       criteria,
     });
 
-    // Store examples
-    for (let i = 0; i < examples.length; i++) {
-      const example = examples[i];
-      if (!example) continue; // Skip undefined examples
-      
-      await createExample({
-        datasetId,
-        inputText: example.input || 'No input provided',
-        expectedOutput: example.expected_output || 'No expected output provided',
-        difficulty: example.difficulty || 'medium',
-        metadata: { tags: example.tags || [] },
-      });
-    }
-
     console.log(`[DATASET GENERATOR] Dataset ${datasetId} created successfully`);
 
     return {
@@ -203,65 +280,6 @@ Domain:`;
       criteria,
     };
   }
-
-  /**
-   * Get fallback examples if generation fails
-   */
-  private getFallbackExamples(
-    prompt: string,
-    count: number
-  ): Example[] {
-    const examples: Example[] = [];
-    const difficulties: Array<'easy' | 'medium' | 'hard'> = [
-      'easy',
-      'medium',
-      'hard',
-    ];
-
-    for (let i = 0; i < count; i++) {
-      examples.push({
-        input: `Test case ${i + 1} for: ${prompt.substring(0, 50)}...`,
-        expected_output: 'Expected output for this test case',
-        difficulty: difficulties[i % 3] || 'medium',
-        tags: ['fallback'],
-      });
-    }
-
-    return examples;
-  }
-
-  /**
-   * Get default evaluation criteria
-   */
-  private getDefaultCriteria(): Criterion[] {
-    return [
-      {
-        name: 'relevance',
-        description: 'How well the output addresses the input',
-        weight: 1.0,
-      },
-      {
-        name: 'accuracy',
-        description: 'Factual correctness of the output',
-        weight: 1.2,
-      },
-      {
-        name: 'consistency',
-        description: 'Uniformity and coherence across outputs',
-        weight: 0.8,
-      },
-      {
-        name: 'efficiency',
-        description: 'Conciseness without sacrificing quality',
-        weight: 0.9,
-      },
-      {
-        name: 'readability',
-        description: 'Clarity and structure of the output',
-        weight: 1.0,
-      },
-    ];
-  }
 }
 
 /**
@@ -0,0 +1,306 @@
+/**
+ * Dataset Importer Service
+ * Parses uploaded CSV/JSONL datasets into examples and stores them for evaluation and
+ * optimization runs
+ */
+
+import { z } from 'zod';
+import {
+  CodeTestSchema,
+  storeDataset,
+  type Criterion,
+  type StoredExample,
+} from './dataset-generator.js';
+import { AssertionSchema } from '../utils/assertions.js';
+import { CsvParseError, parseCsv } from '../utils/csv.js';
+
+export type DatasetFormat = 'csv' | 'jsonl';
+
+/**
+ * Example fields an upload can provide
+ */
+export const DATASET_FIELDS = [
+  'input',
+  'expected_output',
+  'difficulty',
+  'tags',
+  'assertions',
+  'tests',
+] as const;
+
+export type DatasetField = (typeof DATASET_FIELDS)[number];
+
+/**
+ * Source CSV column or JSONL key per example field (unmapped fields use their own name)
+ */
+export type ColumnMapping = Partial<Record<DatasetField, string>>;
+
+/**
+ * Most examples one upload may contain
+ */
+const MAX_EXAMPLES = 1000;
+
+/**
+ * Most row errors reported for one upload
+ */
+const MAX_REPORTED_ISSUES = 50;
+
+/**
+ * Imported example schema (unlike generated examples, invalid assertions are an error)
+ */
+const ImportedExampleSchema = z.object({
+  input: z.string({ required_error: 'Input is required' }).trim().min(1, 'Input is required'),
+  expected_output: z.string().optional(),
+  difficulty: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toLowerCase() : value),
+    z.enum(['easy', 'medium', 'hard']).default('medium')
+  ),
+  tags: z.array(z.string()).default([]),
+  assertions: z.array(AssertionSchema).optional(),
+  tests: z.array(CodeTestSchema).optional(),
+});
+
+/**
+ * A problem with one row of an upload
+ */
+export interface DatasetImportIssue {
+  /** Line of the row in the uploaded content (1-based) */
+  line: number;
+  field?: string;
+  message: string;
+}
+
+/**
+ * Raised when an upload cannot be imported; issues lists every invalid row
+ */
+export class DatasetImportError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: DatasetImportIssue[]
+  ) {
+    super(message);
+    this.name = 'DatasetImportError';
+  }
+}
+
+/**
+ * Field values of one row, before validation
+ */
+interface RawRow {
+  line: number;
+  values: Partial<Record<DatasetField, unknown>>;
+}
+
+/**
+ * Tags as a JSON array, or separated by semicolons or commas
+ */
+function parseTags(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    return JSON.parse(trimmed);
+  }
+  return trimmed
+    .split(/[;,]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Dataset Importer class
+ */
+export class DatasetImporter {
+  /**
+   * Parse and validate uploaded content into examples
+   * Throws DatasetImportError listing the invalid rows when any row is invalid
+   */
+  parse(content: string, format: DatasetFormat, mapping: ColumnMapping = {}): StoredExample[] {
+    const issues: DatasetImportIssue[] = [];
+    const rows =
+      format === 'csv'
+        ? this.readCsv(content, mapping, issues)
+        : this.readJsonl(content, mapping, issues);
+
+    const examples: StoredExample[] = [];
+    for (const row of rows) {
+      const result = ImportedExampleSchema.safeParse(row.values);
+      if (result.success) {
+        examples.push(result.data);
+        continue;
+      }
+      for (const issue of result.error.issues) {
+        issues.push({
+          line: row.line,
+          field: issue.path.join('.') || undefined,
+          message: issue.message,
+        });
+      }
+    }
+
+    if (issues.length > 0) {
+      issues.sort((a, b) => a.line - b.line);
+      throw new DatasetImportError(
+        `Dataset has ${issues.length} invalid ${issues.length === 1 ? 'entry' : 'entries'}`,
+        issues.slice(0, MAX_REPORTED_ISSUES)
+      );
+    }
+    if (examples.length === 0) {
+      throw new DatasetImportError('Dataset has no examples', []);
+    }
+    if (examples.length > MAX_EXAMPLES) {
+      throw new DatasetImportError(
+        `Dataset has ${examples.length} examples (at most ${MAX_EXAMPLES} allowed)`,
+        []
+      );
+    }
+    return examples;
+  }
+
+  /**
+   * Parse, validate and store an upload as a new dataset
+   */
+  async import(upload: {
+    content: string;
+    format: DatasetFormat;
+    mapping?: ColumnMapping;
+    domain?: string;
+    criteria?: Criterion[];
+  }): Promise<{ id: string; domain: string; exampleCount: number }> {
+    const examples = this.parse(upload.content, upload.format, upload.mapping);
+    const domain = upload.domain ?? 'custom';
+
+    const id = await storeDataset({
+      promptId: null,
+      domain,
+      examples,
+      difficultyLevels: ['easy', 'medium', 'hard'].filter((level) =>
+        examples.some((example) => example.difficulty === level)
+      ),
+      criteria: upload.criteria ?? [],
+    });
+
+    console.log(`[DATASET IMPORTER] Imported ${examples.length} examples as dataset ${id}`);
+
+    return { id, domain, exampleCount: examples.length };
+  }
+
+  /**
+   * Rows of a CSV upload; the first record is the header
+   */
+  private readCsv(
+    content: string,
+    mapping: ColumnMapping,
+    issues: DatasetImportIssue[]
+  ): RawRow[] {
+    let records;
+    try {
+      records = parseCsv(content);
+    } catch (error) {
+      if (error instanceof CsvParseError) {
+        issues.push({ line: error.line, message: error.reason });
+        return [];
+      }
+      throw error;
+    }
+
+    const [header, ...body] = records;
+    if (!header) {
+      return [];
+    }
+
+    const headers = header.cells.map((cell) => cell.trim());
+    const columns = new Map<DatasetField, number>();
+    for (const field of DATASET_FIELDS) {
+      const column = mapping[field] ?? field;
+      const index = headers.indexOf(column);
+      if (index >= 0) {
+        columns.set(field, index);
+      } else if (mapping[field] !== undefined || field === 'input') {
+        issues.push({ line: header.line, field, message: `Column "${column}" not found` });
+      }
+    }
+    if (issues.length > 0) {
+      return [];
+    }
+
+    const rows: RawRow[] = [];
+    for (const record of body) {
+      if (record.cells.length !== headers.length) {
+        issues.push({
+          line: record.line,
+          message: `Expected ${headers.length} cells, found ${record.cells.length}`,
+        });
+        continue;
+      }
+
+      const values: RawRow['values'] = {};
+      for (const [field, index] of columns) {
+        const cell = record.cells[index] ?? '';
+        if (cell.trim() === '') continue;
+
+        if (field === 'tags' || field === 'assertions' || field === 'tests') {
+          // List fields hold JSON (tags may also be a plain list)
+          try {
+            values[field] = field === 'tags' ? parseTags(cell) : JSON.parse(cell);
+          } catch {
+            issues.push({ line: record.line, field, message: 'Invalid JSON' });
+          }
+        } else {
+          values[field] = cell;
+        }
+      }
+      rows.push({ line: record.line, values });
+    }
+    return rows;
+  }
+
+  /**
+   * Rows of a JSONL upload (one JSON object per line; blank lines are skipped)
+   */
+  private readJsonl(
+    content: string,
+    mapping: ColumnMapping,
+    issues: DatasetImportIssue[]
+  ): RawRow[] {
+    const rows: RawRow[] = [];
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    lines.forEach((text, i) => {
+      const line = i + 1;
+      if (text.trim() === '') return;
+
+      let record: unknown;
+      try {
+        record = JSON.parse(text);
+      } catch (error: any) {
+        issues.push({ line, message: `Invalid JSON: ${error.message}` });
+        return;
+      }
+      if (record === null || typeof record !== 'object' || Array.isArray(record)) {
+        issues.push({ line, message: 'Expected a JSON object' });
+        return;
+      }
+
+      const values: RawRow['values'] = {};
+      for (const field of DATASET_FIELDS) {
+        const value = (record as Record<string, unknown>)[mapping[field] ?? field];
+        if (value === undefined || value === null) continue;
+        if (field === 'tags' && typeof value === 'string') {
+          try {
+            values[field] = parseTags(value);
+          } catch {
+            issues.push({ line, field, message: 'Invalid JSON' });
+          }
+        } else {
+          values[field] = value;
+        }
+      }
+      rows.push({ line, values });
+    });
+    return rows;
+  }
+}
+
+/**
+ * Global dataset importer instance
+ */
+export const datasetImporter = new DatasetImporter();
@@ -0,0 +1,218 @@
+/**
+ * Evaluation Service
+ * Scores a prompt against a stored dataset without running the optimization pipeline
+ */
+
+import {
+  evaluator,
+  type ExampleEvaluation,
+  type JudgeFailures,
+  type Metrics,
+} from './evaluator.js';
+import type { Criterion } from './dataset-generator.js';
+import type { CodeTest } from '../core/sandbox.js';
+import type { Assertion } from '../utils/assertions.js';
+import type { EvaluateRequest } from '../api/schemas/evaluation.js';
+import { CancelledError, isCancellation } from '../core/cancellation.js';
+import { llmClient } from '../core/llm-client.js';
+import { UsageTracker, type UsageReport } from '../core/usage.js';
+import { createEvaluation, getDataset, getExamplesByDataset, getVersion } from '../db/crud.js';
+import { createTokenStream, type EventQueue } from '../utils/streaming.js';
+import { buildExecutionMessages, type PromptLayout } from '../utils/messages.js';
+
+/**
+ * Evaluation result interface
+ */
+export interface EvaluationResult {
+  evaluation_id: string;
+  metrics: Metrics;
+  judge_failures: JudgeFailures;
+  evaluation_details: ExampleEvaluation[];
+  duration_seconds: number;
+  usage: UsageReport;
+}
+
+/**
+ * Evaluation Service class
+ */
+export class EvaluationService {
+  /**
+   * Execute the prompt on every example of the dataset and score the outputs
+   * Aborting the signal (e.g. on client disconnect) cancels the evaluation
+   */
+  async evaluate(
+    request: EvaluateRequest,
+    eventQueue: EventQueue,
+    signal?: AbortSignal
+  ): Promise<EvaluationResult> {
+    const startTime = Date.now();
+    const usage = new UsageTracker();
+
+    // Aborted by the caller's signal, or when the evaluation fails
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const context = { usage, signal: controller.signal, runModel: request.parameters.model };
+    const layout: PromptLayout = {
+      format: request.prompt_format,
+      messages: request.messages,
+    };
+
+    try {
+      const version = request.version_id ? await getVersion(request.version_id) : null;
+      if (request.version_id && !version) {
+        throw new Error(`Version ${request.version_id} not found`);
+      }
+      const promptText = version?.prompt_text ?? request.prompt ?? '';
+
+      const dataset = await getDataset(request.dataset_id);
+      if (!dataset) {
+        throw new Error(`Dataset ${request.dataset_id} not found`);
+      }
+      const examples = await getExamplesByDataset(dataset.id);
+      const criteria: Criterion[] = JSON.parse(dataset.criteria_json);
+
+      console.log(
+        `[EVALUATION] Evaluating prompt against dataset ${dataset.id} (${examples.length} examples)`
+      );
+
+      // Examples run in parallel; the request scheduler enforces provider limits
+      let completed = 0;
+      const consistencyRuns = request.evaluation_config.consistency_runs;
+      const evaluationExamples = await Promise.all(
+        examples.map(async (example, i) => {
+          const messages = buildExecutionMessages(promptText, example.input_text, layout);
+          const options = {
+            ...context,
+            stage: 'execution' as const,
+            temperature: request.parameters.temperature,
+            topP: request.parameters.top_p,
+            maxTokens: request.parameters.max_tokens,
+          };
+
+          // Only the first run streams; repeat runs (for consistency) bypass the cache
+          const outputs = await Promise.all(
+            Array.from({ length: consistencyRuns }, (_, run) =>
+              run === 0
+                ? llmClient.completeMessagesStream(
+                    messages,
+                    createTokenStream(eventQueue, { stage: 'execution', example_index: i }),
+                    options
+                  )
+                : llmClient.completeMessages(messages, { ...options, cache: false })
+            )
+          );
+
+          completed++;
+          eventQueue.push({
+            type: 'evaluation_progress',
+            data: { stage: 'executing', current: completed, total: examples.length },
+          });
+
+          const metadata: { tests?: CodeTest[]; assertions?: Assertion[] } = example.metadata_json
+            ? JSON.parse(example.metadata_json)
+            : {};
+
+          return {
+            input: example.input_text,
+            expectedOutput: example.expected_output,
+            actualOutput: outputs[0] ?? '',
+            outputs,
+            tests: metadata.tests,
+            assertions: metadata.assertions,
+          };
+        })
+      );
+
+      eventQueue.push({
+        type: 'evaluation_progress',
+        data: { stage: 'scoring', current: 0, total: examples.length },
+      });
+
+      const { metrics, evaluations, failures } = await evaluator.evaluateDataset(
+        promptText,
+        evaluationExamples,
+        context,
+        criteria,
+        {
+          metrics: evaluator.resolveMetrics(
+            request.metrics,
+            request.custom_metrics,
+            request.evaluation_config.reference_metrics
+          ),
+          consistencyLlmCheck: request.evaluation_config.consistency_llm_check,
+          panel: request.evaluation_config.judge_panel,
+          passK: request.evaluation_config.pass_k,
+        }
+      );
+
+      signal?.throwIfAborted();
+
+      const report = usage.report();
+      const evaluationId = await createEvaluation({
+        datasetId: dataset.id,
+        versionId: version?.id,
+        promptText,
+        parameters: {
+          ...request.parameters,
+          metrics: request.metrics,
+          custom_metrics: request.custom_metrics,
+          evaluation_config: request.evaluation_config,
+        },
+        metrics,
+        evaluationDetails: evaluations,
+        judgeFailures: failures,
+        usage: report,
+      });
+
+      const duration = (Date.now() - startTime) / 1000;
+      console.log(
+        `[EVALUATION] Evaluation ${evaluationId} complete in ${duration.toFixed(2)}s ` +
+          `(aggregate ${metrics.aggregate_score})`
+      );
+
+      const result: EvaluationResult = {
+        evaluation_id: evaluationId,
+        metrics,
+        judge_failures: failures,
+        evaluation_details: evaluations,
+        duration_seconds: duration,
+        usage: report,
+      };
+
+      eventQueue.push({ type: 'evaluation_complete', data: result });
+      eventQueue.close();
+
+      return result;
+    } catch (error) {
+      if (isCancellation(error, signal)) {
+        console.log('[EVALUATION] Cancelled');
+        eventQueue.push({ type: 'evaluation_cancelled', data: { usage: usage.report() } });
+      } else {
+        console.error('[EVALUATION ERROR]', error);
+        // Calls of the other examples still in flight are cancelled
+        controller.abort(new CancelledError('Evaluation failed'));
+        eventQueue.push({
+          type: 'error',
+          data: {
+            message: error instanceof Error ? error.message : 'Unknown error',
+            details: error,
+          },
+        });
+      }
+      eventQueue.close();
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+/**
+ * Global evaluation service instance
+ */
+export const evaluationService = new EvaluationService();
@@ -3,32 +3,386 @@
  * Calculates evaluation metrics for prompt outputs
  */
 
-import { llmClient } from '../core/llm-client.js';
+import { z } from 'zod';
+import { appConfig } from '../config.js';
+import { isCancellation } from '../core/cancellation.js';
+import { llmClient, type CallContext } from '../core/llm-client.js';
+import {
+  cosineSimilarity,
+  getEmbeddingProvider,
+  LOCAL_EMBEDDING_PREFIX,
+  type EmbeddingProvider,
+} from '../core/embeddings.js';
+import { resolveModel } from '../core/providers/index.js';
+import { codeSandbox, extractCode, type CodeTest, type SandboxResult } from '../core/sandbox.js';
 import {
   RELEVANCE_EVALUATION_PROMPT,
   ACCURACY_EVALUATION_PROMPT,
   READABILITY_EVALUATION_PROMPT,
+  RUBRIC_EVALUATION_PROMPT,
+  CONSISTENCY_AGREEMENT_PROMPT,
+  CUSTOM_METRIC_EVALUATION_PROMPT,
 } from '../prompts/evaluation-prompts.js';
+import type { Criterion } from './dataset-generator.js';
+import {
+  metricRegistry,
+  type MetricDefinition,
+  type MetricInput,
+  type MetricOutcome,
+  type MetricSelection,
+  type SelectedMetric,
+} from './metric-registry.js';
+import { krippendorffAlpha, passAtK, standardDeviation } from '../utils/statistics.js';
+import {
+  checkAssertions,
+  type Assertion,
+  type AssertionResult,
+  type AssertionScore,
+} from '../utils/assertions.js';
+import {
+  REFERENCE_METRICS,
+  REFERENCE_SCORERS,
+  type ReferenceMetric,
+} from '../utils/reference-metrics.js';
+
+/**
+ * Breakdowns behind individual metric scores
+ */
+export interface MetricDetails {
+  /** Score per generated criterion, keyed by criterion name */
+  criteria?: Record<string, number>;
+  /** Test results of the executed code (only for examples with test cases) */
+  execution?: ExecutionScore;
+  /** Pass rate of the example assertions (only for examples with assertions) */
+  assertions?: AssertionScore;
+}
 
 /**
  * Metrics interface
+ * Scores are keyed by metric ID and cover the selected metrics that apply (no rubric
+ * without criteria, no consistency with a single run, ...). A score is null when scoring
+ * failed (for a dataset: failed on every example).
  */
-export interface Metrics {
-  relevance: number;
-  accuracy: number;
-  consistency: number;
-  efficiency: number;
-  readability: number;
+export interface Metrics extends MetricDetails {
+  scores: Record<string, number | null>;
+  /** Aggregate weight of each scored metric */
+  weights: Record<string, number>;
+  /** Inter-rater agreement per judged metric (only with a judge panel) */
+  agreement?: Record<string, JudgeAgreement>;
   aggregate_score: number;
 }
 
+/**
+ * Results of running the code in an example's outputs against its test cases
+ */
+export interface ExecutionScore {
+  /** Estimated chance (0-100) that at least one of k outputs passes every test */
+  pass_at_k: number;
+  k: number;
+  /** Share of test runs that passed across all outputs (0-100) */
+  tests_passed: number;
+}
+
+/**
+ * Default aggregate weight of the judged built-in metrics
+ */
+const JUDGE_WEIGHTS = {
+  relevance: 1.2,
+  accuracy: 1.5,
+  readability: 1.0,
+};
+
+/**
+ * Default weight of the rubric score in the aggregate
+ */
+const RUBRIC_WEIGHT = 1.5;
+
+/**
+ * Default weight of pass@k in the aggregate; passing tests is the most direct signal a
+ * code-generation prompt gets
+ */
+const EXECUTION_WEIGHT = 2.0;
+
+/**
+ * Default weight of the assertion pass rate in the aggregate
+ */
+const ASSERTION_WEIGHT = 2.0;
+
+/**
+ * Default aggregate weight of each reference metric
+ * Exact match is all-or-nothing on free text, so it counts least
+ */
+const REFERENCE_WEIGHTS: Record<ReferenceMetric, number> = {
+  exact_match: 0.5,
+  token_f1: 1.0,
+  rouge_l: 1.0,
+  bleu: 0.8,
+  json_match: 1.0,
+};
+
+const REFERENCE_METRIC_INFO: Record<ReferenceMetric, { name: string; description: string }> = {
+  exact_match: {
+    name: 'Exact Match',
+    description: 'Output equals the expected output after normalization',
+  },
+  token_f1: { name: 'Token F1', description: 'Token overlap with the expected output' },
+  rouge_l: { name: 'ROUGE-L', description: 'Longest common subsequence with the expected output' },
+  bleu: { name: 'BLEU', description: 'N-gram precision against the expected output' },
+  json_match: {
+    name: 'JSON Match',
+    description: 'Output JSON equals the expected JSON (only for JSON expected outputs)',
+  },
+};
+
+/**
+ * Repeated outputs up to this many words count as short answers, which the optional
+ * LLM agreement check scores instead of embeddings ("yes" vs "no" embed almost alike)
+ */
+const SHORT_ANSWER_WORDS = 30;
+
+/**
+ * Embedder used when EMBEDDING_MODEL's provider has no embeddings endpoint
+ */
+const FALLBACK_CONSISTENCY_EMBEDDING_MODEL = `${LOCAL_EMBEDDING_PREFIX}hashing`;
+
+/**
+ * Stands in for {expected_output} in custom judge prompts when an example has no reference
+ */
+const NO_REFERENCE = 'None provided';
+
+let warnedConsistencyFallback = false;
+
+/**
+ * Embedder for consistency scoring: EMBEDDING_MODEL, or in-process hashing embeddings when
+ * its provider cannot embed (e.g. OpenRouter or Anthropic), so consistency is still measured
+ */
+export function getConsistencyEmbedder(model: string = appConfig.embeddingModel): EmbeddingProvider {
+  if (model.startsWith(LOCAL_EMBEDDING_PREFIX) || resolveModel(model).adapter.capabilities.embeddings) {
+    return getEmbeddingProvider(model);
+  }
+
+  if (!warnedConsistencyFallback) {
+    warnedConsistencyFallback = true;
+    console.warn(
+      `[EVALUATOR] The provider of ${model} has no embeddings endpoint, scoring consistency with ${FALLBACK_CONSISTENCY_EMBEDDING_MODEL}`
+    );
+  }
+  return getEmbeddingProvider(FALLBACK_CONSISTENCY_EMBEDDING_MODEL);
+}
+
+/**
+ * Structured verdict returned by an LLM judge
+ */
+const VerdictSchema = z.object({
+  score: z.coerce.number().min(0).max(100),
+  rationale: z.string().min(1),
+  issues: z.array(z.string()).default([]),
+});
+
+/**
+ * How the scores of a judge panel are combined
+ */
+export type PanelAggregation = 'mean' | 'median';
+
+/**
+ * Judge panel: every judgment is made by each model, sampled `samples` times
+ * (no models = the judging stage's model)
+ */
+export interface JudgePanel {
+  models: string[];
+  samples: number;
+  aggregation: PanelAggregation;
+}
+
+/**
+ * Individual panel scores behind an aggregated verdict
+ */
+export interface PanelVerdict {
+  judges: Array<{ judge: string; score: number | null }>;
+  std_dev: number;
+  /** Judges disagreed by more than LOW_AGREEMENT_STD_DEV points */
+  low_agreement: boolean;
+}
+
+export type JudgeVerdict = z.infer<typeof VerdictSchema> & { panel?: PanelVerdict };
+
+/**
+ * Agreement of a judge panel on one metric across a dataset
+ */
+export interface JudgeAgreement {
+  /** Krippendorff's alpha (interval); null when there was nothing to compare */
+  alpha: number | null;
+  /** Mean per-example standard deviation of panel scores */
+  mean_std_dev: number;
+  low_agreement_examples: number;
+}
+
+/**
+ * Per-example standard deviation of panel scores above which the example is flagged
+ */
+const LOW_AGREEMENT_STD_DEV = 15;
+
+/**
+ * Temperature for repeated samples of the same judge; identical low-temperature calls
+ * would repeat the first verdict (and be served it from the completion cache)
+ */
+const PANEL_SAMPLE_TEMPERATURE = 0.7;
+
+/**
+ * Evaluation options beyond the scored example itself
+ */
+export interface EvaluationOptions {
+  /** Let a judge decide agreement of short repeated answers (see calculateConsistency) */
+  consistencyLlmCheck?: boolean;
+  /** Judge panel for the single-score judges (relevance, accuracy, readability, custom) */
+  panel?: JudgePanel;
+  /** Metrics to score and their weights (default: the registry's default metrics) */
+  metrics?: SelectedMetric[];
+  /** k for pass@k on examples with test cases (default: 1; capped at the outputs per example) */
+  passK?: number;
+}
+
+/**
+ * Deterministic checks attached to an example
+ */
+export interface ExampleChecks {
+  /** Test cases run against the code in every output */
+  tests?: CodeTest[];
+  /** Hard requirements checked against the first output */
+  assertions?: Assertion[];
+}
+
+/**
+ * User-defined LLM-judge metric
+ * The prompt holds the judging instructions, with {output} and optionally {input} and
+ * {expected_output} placeholders
+ */
+export interface CustomMetric {
+  id: string;
+  name: string;
+  prompt: string;
+  weight: number;
+}
+
+/**
+ * Judge verdicts of one example, by metric ID (null = judging failed)
+ */
+export type JudgeVerdicts = Record<string, JudgeVerdict | null>;
+
+/**
+ * Failed scorings per selected metric across a dataset
+ */
+export type JudgeFailures = Record<string, number>;
+
+/**
+ * Raised when too many judgments of an iteration failed for its scores to be trusted
+ */
+export class JudgeFailureError extends Error {
+  constructor(
+    message: string,
+    public readonly failures: JudgeFailures,
+    public readonly total: number
+  ) {
+    super(message);
+    this.name = 'JudgeFailureError';
+  }
+}
+
+/**
+ * Median of non-empty values
+ */
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? ((sorted[middle - 1] ?? 0) + (sorted[middle] ?? 0)) / 2
+    : sorted[middle] ?? 0;
+}
+
+/**
+ * Mean rounded to one decimal, or null when there are no values
+ */
+function average(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  return Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10;
+}
+
+/**
+ * Per-check results behind an example's metrics
+ */
+export interface EvaluationDetails {
+  /** Sandbox results per output (only for examples with test cases) */
+  execution?: SandboxResult[];
+  /** Result per assertion (only for examples with assertions) */
+  assertions?: AssertionResult[];
+}
+
 /**
  * Example evaluation result
  */
-export interface ExampleEvaluation {
+export interface ExampleEvaluation extends EvaluationDetails {
+  /** Position of the example in its dataset, when the caller gave one */
+  example_index?: number;
   input: string;
   output: string;
   metrics: Metrics;
+  verdicts: JudgeVerdicts;
+}
+
+/**
+ * Convert stored metrics to the current shape
+ * Metrics saved before the registry had a fixed field per metric; their scores move into
+ * `scores`, weighted with the registry defaults.
+ */
+export function normalizeMetrics(raw: unknown): Metrics {
+  const stored = (raw ?? {}) as Record<string, unknown>;
+  if (typeof stored['scores'] === 'object' && stored['scores'] !== null) {
+    return stored as unknown as Metrics;
+  }
+
+  const scores: Record<string, number | null> = {};
+  const setScore = (id: string, value: unknown) => {
+    if (typeof value === 'number' || value === null) {
+      scores[id] = value;
+    }
+  };
+  for (const id of ['relevance', 'accuracy', 'efficiency', 'readability', 'rubric']) {
+    setScore(id, stored[id]);
+  }
+  // Legacy consistency was null whenever examples ran only once
+  if (typeof stored['consistency'] === 'number') {
+    scores['consistency'] = stored['consistency'];
+  }
+  for (const [id, value] of Object.entries((stored['reference'] ?? {}) as Record<string, unknown>)) {
+    setScore(id, value);
+  }
+  const details = stored as MetricDetails;
+  if (details.execution) {
+    scores['pass_at_k'] = details.execution.pass_at_k;
+  }
+  if (details.assertions) {
+    scores['assertions'] = details.assertions.pass_rate;
+  }
+
+  const weights: Record<string, number> = {};
+  for (const id of Object.keys(scores)) {
+    weights[id] = metricRegistry.get(id)?.weight ?? 1;
+  }
+
+  return {
+    scores,
+    weights,
+    ...(details.criteria && { criteria: details.criteria }),
+    ...(details.execution && { execution: details.execution }),
+    ...(details.assertions && { assertions: details.assertions }),
+    ...(typeof stored['agreement'] === 'object' &&
+      stored['agreement'] !== null && {
+        agreement: stored['agreement'] as Record<string, JudgeAgreement>,
+      }),
+    aggregate_score: typeof stored['aggregate_score'] === 'number' ? stored['aggregate_score'] : 0,
+  };
 }
 
 /**
@@ -36,79 +390,177 @@ export interface ExampleEvaluation {
  */
 export class Evaluator {
   /**
-   * Calculate relevance score using LLM-as-judge
+   * Run an LLM judge and return its structured verdict
+   * Returns null when the judge fails even after repair retries, so the failure is
+   * counted instead of scored
+   */
+  private async judgeOnce(
+    metric: string,
+    prompt: string,
+    context: CallContext,
+    model?: string,
+    temperature: number = 0.1
+  ): Promise<JudgeVerdict | null> {
+    try {
+      return await llmClient.completeStructured(prompt, VerdictSchema, {
+        ...context,
+        stage: 'judging',
+        model,
+        temperature,
+        maxTokens: 4000, // High limit for detailed evaluation
+      });
+    } catch (error) {
+      // A cancelled run must stop, not score the example as neutral
+      if (isCancellation(error, context.signal)) {
+        throw error;
+      }
+      console.error(`[EVALUATOR] ${metric} judging${model ? ` (${model})` : ''} failed:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Run a judgment, with a single judge or a panel
+   * A panel verdict carries the aggregated score, the rationale of the judge closest to
+   * it, the union of issues and the individual scores; it is null only when every
+   * panel judge failed
+   */
+  private async judge(
+    metric: string,
+    prompt: string,
+    context: CallContext,
+    panel?: JudgePanel
+  ): Promise<JudgeVerdict | null> {
+    const models: Array<string | undefined> = panel?.models.length ? panel.models : [undefined];
+    const samples = panel?.samples ?? 1;
+    if (models.length * samples < 2) {
+      return this.judgeOnce(metric, prompt, context, models[0]);
+    }
+
+    const judges = models.flatMap((model) =>
+      Array.from({ length: samples }, (_, sample) => ({
+        label: `${model ?? 'judging'}#${sample + 1}`,
+        model,
+        sample,
+      }))
+    );
+    const verdicts = await Promise.all(
+      judges.map(({ model, sample }) =>
+        this.judgeOnce(metric, prompt, context, model, sample === 0 ? 0.1 : PANEL_SAMPLE_TEMPERATURE)
+      )
+    );
+
+    const succeeded = verdicts.filter((verdict): verdict is JudgeVerdict => verdict !== null);
+    if (succeeded.length === 0) {
+      return null;
+    }
+
+    const scores = succeeded.map((verdict) => verdict.score);
+    const score = Math.round(
+      (panel?.aggregation === 'median' ? median(scores) : scores.reduce((a, b) => a + b, 0) / scores.length) * 10
+    ) / 10;
+    const closest = succeeded.reduce((best, verdict) =>
+      Math.abs(verdict.score - score) < Math.abs(best.score - score) ? verdict : best
+    );
+    const stdDev = Math.round(standardDeviation(scores) * 10) / 10;
+
+    return {
+      score,
+      rationale: closest.rationale,
+      issues: [...new Set(succeeded.flatMap((verdict) => verdict.issues))],
+      panel: {
+        judges: judges.map(({ label }, i) => ({ judge: label, score: verdicts[i]?.score ?? null })),
+        std_dev: stdDev,
+        low_agreement: stdDev > LOW_AGREEMENT_STD_DEV,
+      },
+    };
+  }
+
+  /**
+   * Judge relevance (how well the output addresses the input)
    */
   private async calculateRelevance(
     input: string,
-    output: string
-  ): Promise<number> {
+    output: string,
+    context: CallContext,
+    panel?: JudgePanel
+  ): Promise<JudgeVerdict | null> {
     const prompt = RELEVANCE_EVALUATION_PROMPT.replace('{input}', input).replace(
       '{output}',
       output
     );
 
-    try {
-      const response = await llmClient.complete(prompt, {
-        temperature: 0.1,
-        maxTokens: 4000, // High limit for detailed evaluation
-      });
-
-      const score = parseFloat(response.trim());
-      return isNaN(score) ? 50 : Math.min(100, Math.max(0, score));
-    } catch (error) {
-      console.error('[EVALUATOR] Relevance calculation failed:', error);
-      return 50;
-    }
+    return this.judge('relevance', prompt, context, panel);
   }
 
   /**
-   * Calculate accuracy score using LLM-as-judge with expected output
+   * Judge accuracy against the expected output
    */
   private async calculateAccuracy(
     input: string,
     expectedOutput: string,
-    actualOutput: string
-  ): Promise<number> {
+    actualOutput: string,
+    context: CallContext,
+    panel?: JudgePanel
+  ): Promise<JudgeVerdict | null> {
     const prompt = ACCURACY_EVALUATION_PROMPT.replace('{input}', input)
       .replace('{expected_output}', expectedOutput)
       .replace('{actual_output}', actualOutput);
 
-    try {
-      const response = await llmClient.complete(prompt, {
-        temperature: 0.1,
-        maxTokens: 4000, // High limit for detailed evaluation
-      });
-
-      const score = parseFloat(response.trim());
-      return isNaN(score) ? 50 : Math.min(100, Math.max(0, score));
-    } catch (error) {
-      console.error('[EVALUATOR] Accuracy calculation failed:', error);
-      return 50;
-    }
+    return this.judge('accuracy', prompt, context, panel);
   }
 
   /**
-   * Calculate consistency score (variance across multiple outputs)
+   * Semantic consistency across repeated runs of one example (0-100)
+   * Mean pairwise cosine similarity of the outputs' embeddings; with llmCheck, short
+   * answers are scored by a judge on whether they agree instead.
+   * Null with fewer than two outputs or when scoring failed.
    */
-  private calculateConsistency(outputs: string[]): number {
+  private async calculateConsistency(
+    outputs: string[],
+    context: CallContext,
+    llmCheck: boolean
+  ): Promise<number | null> {
     if (outputs.length < 2) {
-      return 100;
+      return null;
     }
 
-    // Calculate average length
-    const lengths = outputs.map((o) => o.length);
-    const avgLength = lengths.reduce((a, b) => a + b, 0) / lengths.length;
+    const short = outputs.every(
+      (output) => output.split(/\s+/).filter(Boolean).length <= SHORT_ANSWER_WORDS
+    );
+    if (llmCheck && short) {
+      const answers = outputs.map((output, i) => `Answer ${i + 1}: ${output}`).join('\n\n');
+      const verdict = await this.judge(
+        'consistency',
+        CONSISTENCY_AGREEMENT_PROMPT.replace('{answers}', answers),
+        context
+      );
+      return verdict?.score ?? null;
+    }
 
-    // Calculate variance in length
-    const variance =
-      lengths.reduce((acc, len) => acc + Math.pow(len - avgLength, 2), 0) /
-      lengths.length;
+    try {
+      const embeddings = await getConsistencyEmbedder().embed(outputs, {
+        ...context,
+        stage: 'judging',
+      });
 
-    // Convert variance to consistency score (lower variance = higher consistency)
-    const coefficientOfVariation = Math.sqrt(variance) / avgLength;
-    const consistency = Math.max(0, 100 - coefficientOfVariation * 100);
+      let total = 0;
+      let pairs = 0;
+      for (let i = 0; i < embeddings.length; i++) {
+        for (let j = i + 1; j < embeddings.length; j++) {
+          total += cosineSimilarity(embeddings[i] ?? [], embeddings[j] ?? []);
+          pairs++;
+        }
+      }
 
-    return Math.min(100, consistency);
+      return Math.round(Math.max(0, total / pairs) * 1000) / 10;
+    } catch (error) {
+      if (isCancellation(error, context.signal)) {
+        throw error;
+      }
+      console.error('[EVALUATOR] Consistency embedding failed:', error);
+      return null;
+    }
   }
 
   /**
@@ -139,158 +591,553 @@ export class Evaluator {
   }
 
   /**
-   * Calculate readability score using LLM-as-judge
+   * Judge readability and clarity
    */
-  private async calculateReadability(output: string): Promise<number> {
+  private async calculateReadability(
+    output: string,
+    context: CallContext,
+    panel?: JudgePanel
+  ): Promise<JudgeVerdict | null> {
     const prompt = READABILITY_EVALUATION_PROMPT.replace('{output}', output);
 
+    return this.judge('readability', prompt, context, panel);
+  }
+
+  /**
+   * Score an output against every generated criterion in one judge call
+   * Returns the per-criterion scores and their weighted average, or null if judging failed
+   */
+  private async calculateRubric(
+    input: string,
+    output: string,
+    criteria: Criterion[],
+    context: CallContext
+  ): Promise<{ rubric: number; criteria: Record<string, number> } | null> {
+    const criteriaList = criteria
+      .map((criterion) => `- ${criterion.name} (weight ${criterion.weight}): ${criterion.description}`)
+      .join('\n');
+    const prompt = RUBRIC_EVALUATION_PROMPT.replace('{input}', input)
+      .replace('{output}', output)
+      .replace('{criteria}', criteriaList);
+
+    const names = criteria.map((criterion) => criterion.name.toLowerCase());
+    const schema = z
+      .object({
+        scores: z.array(
+          z.object({
+            criterion: z.string(),
+            score: z.coerce.number().min(0).max(100),
+          })
+        ),
+      })
+      .refine(
+        ({ scores }) => names.every((name) => scores.some((s) => s.criterion.toLowerCase() === name)),
+        { message: `Every criterion must be scored: ${criteria.map((c) => c.name).join(', ')}` }
+      );
+
     try {
-      const response = await llmClient.complete(prompt, {
+      const { scores } = await llmClient.completeStructured(prompt, schema, {
+        ...context,
+        stage: 'judging',
         temperature: 0.1,
         maxTokens: 4000, // High limit for detailed evaluation
       });
 
-      const score = parseFloat(response.trim());
-      return isNaN(score) ? 50 : Math.min(100, Math.max(0, score));
+      const byName: Record<string, number> = {};
+      let weightedSum = 0;
+      let totalWeight = 0;
+
+      for (const criterion of criteria) {
+        const entry = scores.find((s) => s.criterion.toLowerCase() === criterion.name.toLowerCase());
+        if (!entry) continue;
+
+        byName[criterion.name] = entry.score;
+        weightedSum += entry.score * criterion.weight;
+        totalWeight += criterion.weight;
+      }
+
+      return {
+        rubric: Math.round((weightedSum / totalWeight) * 10) / 10,
+        criteria: byName,
+      };
     } catch (error) {
-      console.error('[EVALUATOR] Readability calculation failed:', error);
-      return 50;
+      if (isCancellation(error, context.signal)) {
+        throw error;
+      }
+      console.error('[EVALUATOR] Rubric scoring failed:', error);
+      return null;
     }
   }
 
   /**
    * Calculate aggregate score (weighted average)
+   * Failed scores are left out and the remaining weights renormalized; 0 when nothing
+   * with a weight could be scored
    */
-  private calculateAggregateScore(metrics: Omit<Metrics, 'aggregate_score'>): number {
-    const weights = {
-      relevance: 1.2,
-      accuracy: 1.5,
-      consistency: 0.8,
-      efficiency: 0.7,
-      readability: 1.0,
+  private calculateAggregateScore(
+    scores: Record<string, number | null>,
+    weights: Record<string, number>
+  ): number {
+    let weightedSum = 0;
+    let totalWeight = 0;
+    for (const [id, score] of Object.entries(scores)) {
+      const weight = weights[id] ?? 0;
+      if (score === null || weight === 0) continue;
+      weightedSum += score * weight;
+      totalWeight += weight;
+    }
+
+    return totalWeight > 0 ? Math.round((weightedSum / totalWeight) * 10) / 10 : 0;
+  }
+
+  /**
+   * Run the code in each output against the example's tests
+   * An output passes when every test passes; pass@k uses the outputs as samples
+   */
+  private async calculateExecution(
+    outputs: string[],
+    tests: CodeTest[],
+    k: number
+  ): Promise<{ score: ExecutionScore; results: SandboxResult[] }> {
+    const results = await Promise.all(
+      outputs.map((output) => codeSandbox.run(extractCode(output), tests))
+    );
+
+    const passed = results.filter((result) => result.passed).length;
+    const testsPassed = results.reduce(
+      (sum, result) => sum + result.tests.filter((test) => test.passed).length,
+      0
+    );
+    const effectiveK = Math.min(k, outputs.length);
+
+    return {
+      score: {
+        pass_at_k: Math.round(passAtK(outputs.length, passed, effectiveK) * 1000) / 10,
+        k: effectiveK,
+        tests_passed: Math.round((testsPassed / (tests.length * outputs.length)) * 1000) / 10,
+      },
+      results,
     };
+  }
+
+  /**
+   * Fail when any metric's judgments failed on more than the configured share of examples
+   */
+  checkFailures(failures: JudgeFailures, total: number): void {
+    const threshold = appConfig.judgeFailureThreshold;
+    const exceeded = (Object.entries(failures) as Array<[keyof JudgeFailures, number]>).filter(
+      ([, count]) => total > 0 && count / total > threshold
+    );
 
-    const totalWeight =
-      weights.relevance +
-      weights.accuracy +
-      weights.consistency +
-      weights.efficiency +
-      weights.readability;
-
-    const weightedSum =
-      metrics.relevance * weights.relevance +
-      metrics.accuracy * weights.accuracy +
-      metrics.consistency * weights.consistency +
-      metrics.efficiency * weights.efficiency +
-      metrics.readability * weights.readability;
-
-    return Math.round((weightedSum / totalWeight) * 10) / 10;
+    if (exceeded.length > 0) {
+      throw new JudgeFailureError(
+        `Judging failed for too many examples (${exceeded
+          .map(([metric, count]) => `${metric}: ${count}/${total}`)
+          .join(', ')}; threshold ${Math.round(threshold * 100)}%)`,
+        failures,
+        total
+      );
+    }
+  }
+
+  /**
+   * Built-in metric definitions (registered in the metric registry below)
+   */
+  builtinMetrics(): MetricDefinition[] {
+    const judged = (verdict: JudgeVerdict | null): MetricOutcome => ({
+      score: verdict?.score ?? null,
+      verdict,
+    });
+
+    return [
+      {
+        id: 'relevance',
+        name: 'Relevance',
+        kind: 'llm_judge',
+        description: 'How well the output addresses the input',
+        weight: JUDGE_WEIGHTS.relevance,
+        defaultSelected: true,
+        score: async ({ input, output, context, options }) =>
+          judged(await this.calculateRelevance(input, output, context, options.panel)),
+      },
+      {
+        id: 'accuracy',
+        name: 'Accuracy',
+        kind: 'llm_judge',
+        description: 'Factual agreement with the expected output',
+        weight: JUDGE_WEIGHTS.accuracy,
+        defaultSelected: true,
+        score: async ({ input, expectedOutput, output, context, options }) =>
+          expectedOutput === null
+            ? undefined
+            : judged(
+                await this.calculateAccuracy(input, expectedOutput, output, context, options.panel)
+              ),
+      },
+      {
+        id: 'consistency',
+        name: 'Consistency',
+        kind: 'builtin',
+        description: 'Semantic agreement of repeated runs of an example (needs consistency runs)',
+        weight: 0.8,
+        defaultSelected: true,
+        score: async ({ outputs, context, options }) =>
+          outputs.length < 2
+            ? undefined
+            : {
+                score: await this.calculateConsistency(
+                  outputs,
+                  context,
+                  options.consistencyLlmCheck ?? false
+                ),
+              },
+      },
+      {
+        id: 'efficiency',
+        name: 'Efficiency',
+        kind: 'builtin',
+        description: 'Output length relative to the prompt length',
+        weight: 0.7,
+        defaultSelected: true,
+        score: async ({ prompt, output }) => ({ score: this.calculateEfficiency(prompt, output) }),
+      },
+      {
+        id: 'readability',
+        name: 'Readability',
+        kind: 'llm_judge',
+        description: 'Clarity, structure and tone of the output',
+        weight: JUDGE_WEIGHTS.readability,
+        defaultSelected: true,
+        score: async ({ output, context, options }) =>
+          judged(await this.calculateReadability(output, context, options.panel)),
+      },
+      {
+        id: 'rubric',
+        name: 'Rubric',
+        kind: 'llm_judge',
+        description: "Criterion-weighted score against the dataset's criteria (needs criteria)",
+        weight: RUBRIC_WEIGHT,
+        defaultSelected: true,
+        score: async ({ input, output, criteria, context }) => {
+          if (criteria.length === 0) return undefined;
+          const rubric = await this.calculateRubric(input, output, criteria, context);
+          return {
+            score: rubric?.rubric ?? null,
+            ...(rubric && { metricDetails: { criteria: rubric.criteria } }),
+          };
+        },
+      },
+      {
+        id: 'pass_at_k',
+        name: 'Pass@k',
+        kind: 'deterministic',
+        description: 'Chance that one of k outputs passes every code test (needs test cases)',
+        weight: EXECUTION_WEIGHT,
+        defaultSelected: true,
+        score: async ({ outputs, checks, options }) => {
+          if (!checks.tests?.length) return undefined;
+          const execution = await this.calculateExecution(outputs, checks.tests, options.passK ?? 1);
+          return {
+            score: execution.score.pass_at_k,
+            metricDetails: { execution: execution.score },
+            evaluationDetails: { execution: execution.results },
+          };
+        },
+      },
+      {
+        id: 'assertions',
+        name: 'Assertions',
+        kind: 'deterministic',
+        description: 'Share of the example assertions the output passes (needs assertions)',
+        weight: ASSERTION_WEIGHT,
+        defaultSelected: true,
+        score: async ({ output, checks }) => {
+          if (!checks.assertions?.length) return undefined;
+          const assertions = checkAssertions(output, checks.assertions);
+          return {
+            score: assertions.score.pass_rate,
+            metricDetails: { assertions: assertions.score },
+            evaluationDetails: { assertions: assertions.results },
+          };
+        },
+      },
+      ...REFERENCE_METRICS.map(
+        (id): MetricDefinition => ({
+          id,
+          ...REFERENCE_METRIC_INFO[id],
+          kind: 'deterministic',
+          weight: REFERENCE_WEIGHTS[id],
+          defaultSelected: false,
+          score: async ({ output, expectedOutput }) => {
+            if (expectedOutput === null) return undefined;
+            const score = REFERENCE_SCORERS[id](output, expectedOutput);
+            return score === null ? undefined : { score };
+          },
+        })
+      ),
+    ];
+  }
+
+  /**
+   * LLM-judge metric defined by a request
+   */
+  customMetric(metric: CustomMetric): MetricDefinition {
+    return {
+      id: metric.id,
+      name: metric.name,
+      kind: 'llm_judge',
+      description: 'Custom judge metric',
+      weight: metric.weight,
+      defaultSelected: false,
+      score: async ({ input, expectedOutput, output, context, options }) => {
+        const values: Record<string, string> = {
+          input,
+          output,
+          expected_output: expectedOutput ?? NO_REFERENCE,
+        };
+        // One pass, so placeholders inside the substituted texts stay as they are
+        const instructions = metric.prompt.replace(
+          /\{(input|output|expected_output)\}/g,
+          (_, name: string) => values[name] ?? ''
+        );
+        const verdict = await this.judge(
+          metric.id,
+          CUSTOM_METRIC_EVALUATION_PROMPT.replace('{instructions}', () => instructions),
+          context,
+          options.panel
+        );
+        return { score: verdict?.score ?? null, verdict };
+      },
+    };
+  }
+
+  /**
+   * Resolve the metrics a request is scored on
+   * Reference metrics (the shorthand in evaluation_config) are added to the selection;
+   * custom metrics are added as LLM judges. Throws MetricSelectionError for unknown or
+   * conflicting IDs.
+   */
+  resolveMetrics(
+    selection: MetricSelection[] | undefined,
+    custom: CustomMetric[] = [],
+    referenceMetrics: ReferenceMetric[] = []
+  ): SelectedMetric[] {
+    const base =
+      selection ??
+      metricRegistry
+        .list()
+        .filter((definition) => definition.defaultSelected)
+        .map(({ id }) => ({ id }));
+    const extra = referenceMetrics
+      .filter((id) => !base.some((metric) => metric.id === id))
+      .map((id) => ({ id }));
+
+    return metricRegistry.resolve(
+      [...base, ...extra],
+      custom.map((metric) => this.customMetric(metric))
+    );
   }
 
   /**
    * Evaluate a single example
+   * Each selected metric scores the example in parallel; metrics that do not apply to it
+   * (no criteria, reference answer, tests or assertions, a single run) are left out of its scores
    */
   async evaluateExample(
     prompt: string,
     input: string,
-    expectedOutput: string,
+    expectedOutput: string | null,
     actualOutput: string,
-    allOutputs: string[] = [actualOutput]
-  ): Promise<Metrics> {
+    allOutputs: string[] = [actualOutput],
+    context: CallContext = {},
+    criteria: Criterion[] = [],
+    options: EvaluationOptions = {},
+    checks: ExampleChecks = {}
+  ): Promise<{ metrics: Metrics; verdicts: JudgeVerdicts } & EvaluationDetails> {
     console.log('[EVALUATOR] Evaluating example...');
 
-    // Calculate all metrics
-    const [relevance, accuracy, readability] = await Promise.all([
-      this.calculateRelevance(input, actualOutput),
-      this.calculateAccuracy(input, expectedOutput, actualOutput),
-      this.calculateReadability(actualOutput),
-    ]);
-
-    const consistency = this.calculateConsistency(allOutputs);
-    const efficiency = this.calculateEfficiency(prompt, actualOutput);
-
-    const metrics: Omit<Metrics, 'aggregate_score'> = {
-      relevance,
-      accuracy,
-      consistency,
-      efficiency,
-      readability,
+    const selected = options.metrics ?? metricRegistry.resolve(undefined);
+    const metricInput: MetricInput = {
+      prompt,
+      input,
+      expectedOutput,
+      output: actualOutput,
+      outputs: allOutputs,
+      criteria,
+      checks,
+      context,
+      options,
     };
+    const outcomes = await Promise.all(
+      selected.map(({ definition }) => definition.score(metricInput))
+    );
+
+    const scores: Record<string, number | null> = {};
+    const weights: Record<string, number> = {};
+    const verdicts: JudgeVerdicts = {};
+    let metricDetails: MetricDetails = {};
+    let evaluationDetails: EvaluationDetails = {};
+    selected.forEach(({ definition, weight }, i) => {
+      const outcome = outcomes[i];
+      if (!outcome) return;
 
-    const aggregate_score = this.calculateAggregateScore(metrics);
+      scores[definition.id] = outcome.score;
+      weights[definition.id] = weight;
+      if (outcome.verdict !== undefined) {
+        verdicts[definition.id] = outcome.verdict;
+      }
+      metricDetails = { ...metricDetails, ...outcome.metricDetails };
+      evaluationDetails = { ...evaluationDetails, ...outcome.evaluationDetails };
+    });
 
     return {
-      ...metrics,
-      aggregate_score,
+      metrics: {
+        scores,
+        weights,
+        ...metricDetails,
+        aggregate_score: this.calculateAggregateScore(scores, weights),
+      },
+      verdicts,
+      ...evaluationDetails,
     };
   }
 
   /**
    * Evaluate multiple examples and return average
+   * Each metric is averaged over the examples it applies to; failed scorings are excluded
+   * from the averages and counted in failures. With a judge panel, the panel's agreement
+   * per judged metric is reported in metrics.agreement. Execution and assertion details
+   * are summarized across the examples that have tests or assertions.
    */
   async evaluateDataset(
     prompt: string,
     examples: Array<{
       input: string;
-      expectedOutput: string;
+      /** null when the example has no reference answer */
+      expectedOutput: string | null;
       actualOutput: string;
-    }>
-  ): Promise<{ metrics: Metrics; evaluations: ExampleEvaluation[] }> {
+      /** Position of the example in its dataset (kept on its evaluation) */
+      exampleIndex?: number;
+      /** Outputs of every run of this example (first = actualOutput) */
+      outputs?: string[];
+    } & ExampleChecks>,
+    context: CallContext = {},
+    criteria: Criterion[] = [],
+    options: EvaluationOptions = {}
+  ): Promise<{ metrics: Metrics; evaluations: ExampleEvaluation[]; failures: JudgeFailures }> {
     console.log(`[EVALUATOR] Evaluating ${examples.length} examples...`);
 
-    const evaluations: ExampleEvaluation[] = [];
-
-    // Evaluate each example
-    for (const example of examples) {
-      const metrics = await this.evaluateExample(
-        prompt,
-        example.input,
-        example.expectedOutput,
-        example.actualOutput
-      );
-
-      evaluations.push({
+    // Evaluate examples in parallel; the request scheduler enforces provider limits
+    const evaluations: ExampleEvaluation[] = await Promise.all(
+      examples.map(async (example) => ({
+        ...(example.exampleIndex !== undefined && { example_index: example.exampleIndex }),
         input: example.input,
         output: example.actualOutput,
-        metrics,
-      });
+        ...(await this.evaluateExample(
+          prompt,
+          example.input,
+          example.expectedOutput,
+          example.actualOutput,
+          example.outputs ?? [example.actualOutput],
+          context,
+          criteria,
+          options,
+          { tests: example.tests, assertions: example.assertions }
+        )),
+      }))
+    );
+
+    // Calculate average metrics over the examples each metric was scored on
+    const all = evaluations.map((evaluation) => evaluation.metrics);
+    const selected = options.metrics ?? metricRegistry.resolve(undefined);
+    const scores: Record<string, number | null> = {};
+    const weights: Record<string, number> = {};
+    const failures: JudgeFailures = {};
+    for (const { definition, weight } of selected) {
+      const applied = all
+        .map((metrics) => metrics.scores[definition.id])
+        .filter((score): score is number | null => score !== undefined);
+      failures[definition.id] = applied.filter((score) => score === null).length;
+      if (applied.length === 0) continue;
+
+      scores[definition.id] = average(
+        applied.filter((score): score is number => score !== null)
+      );
+      weights[definition.id] = weight;
     }
 
-    // Calculate average metrics
     const avgMetrics: Metrics = {
-      relevance: 0,
-      accuracy: 0,
-      consistency: 0,
-      efficiency: 0,
-      readability: 0,
-      aggregate_score: 0,
+      scores,
+      weights,
+      aggregate_score: average(all.map((metrics) => metrics.aggregate_score)) ?? 0,
     };
 
-    for (const evaluation of evaluations) {
-      avgMetrics.relevance += evaluation.metrics.relevance;
-      avgMetrics.accuracy += evaluation.metrics.accuracy;
-      avgMetrics.consistency += evaluation.metrics.consistency;
-      avgMetrics.efficiency += evaluation.metrics.efficiency;
-      avgMetrics.readability += evaluation.metrics.readability;
-      avgMetrics.aggregate_score += evaluation.metrics.aggregate_score;
+    if (all.some((metrics) => metrics.criteria)) {
+      avgMetrics.criteria = {};
+      for (const criterion of criteria) {
+        const criterionAverage = average(
+          all
+            .map((metrics) => metrics.criteria?.[criterion.name])
+            .filter((score): score is number => score !== undefined)
+        );
+        if (criterionAverage !== null) {
+          avgMetrics.criteria[criterion.name] = criterionAverage;
+        }
+      }
+    }
+
+    const executions = all
+      .map((metrics) => metrics.execution)
+      .filter((execution): execution is ExecutionScore => execution !== undefined);
+    if (executions.length > 0) {
+      avgMetrics.execution = {
+        pass_at_k: average(executions.map((execution) => execution.pass_at_k)) ?? 0,
+        k: Math.min(...executions.map((execution) => execution.k)),
+        tests_passed: average(executions.map((execution) => execution.tests_passed)) ?? 0,
+      };
     }
 
-    const count = evaluations.length;
-    avgMetrics.relevance = Math.round((avgMetrics.relevance / count) * 10) / 10;
-    avgMetrics.accuracy = Math.round((avgMetrics.accuracy / count) * 10) / 10;
-    avgMetrics.consistency =
-      Math.round((avgMetrics.consistency / count) * 10) / 10;
-    avgMetrics.efficiency = Math.round((avgMetrics.efficiency / count) * 10) / 10;
-    avgMetrics.readability =
-      Math.round((avgMetrics.readability / count) * 10) / 10;
-    avgMetrics.aggregate_score =
-      Math.round((avgMetrics.aggregate_score / count) * 10) / 10;
+    const assertionScores = all
+      .map((metrics) => metrics.assertions)
+      .filter((score): score is AssertionScore => score !== undefined);
+    if (assertionScores.length > 0) {
+      avgMetrics.assertions = {
+        pass_rate: average(assertionScores.map((score) => score.pass_rate)) ?? 0,
+        passed: assertionScores.reduce((sum, score) => sum + score.passed, 0),
+        total: assertionScores.reduce((sum, score) => sum + score.total, 0),
+      };
+    }
+
+    const agreement: Record<string, JudgeAgreement> = {};
+    for (const { definition } of selected) {
+      const panels = evaluations
+        .map((evaluation) => evaluation.verdicts[definition.id]?.panel)
+        .filter((panel): panel is PanelVerdict => panel !== undefined);
+      if (panels.length === 0) continue;
+
+      agreement[definition.id] = {
+        alpha: krippendorffAlpha(
+          panels.map((panel) =>
+            panel.judges.map((judge) => judge.score).filter((score): score is number => score !== null)
+          )
+        ),
+        mean_std_dev: average(panels.map((panel) => panel.std_dev)) ?? 0,
+        low_agreement_examples: panels.filter((panel) => panel.low_agreement).length,
+      };
+    }
+    if (Object.keys(agreement).length > 0) {
+      avgMetrics.agreement = agreement;
+    }
 
     console.log('[EVALUATOR] Average metrics:', avgMetrics);
+    if (Object.values(failures).some((count) => count > 0)) {
+      console.warn('[EVALUATOR] Failed judgments:', failures);
+    }
 
     return {
       metrics: avgMetrics,
       evaluations,
+      failures,
     };
   }
 }
@@ -300,3 +1147,6 @@ export class Evaluator {
  */
 export const evaluator = new Evaluator();
 
+for (const definition of evaluator.builtinMetrics()) {
+  metricRegistry.register(definition);
+}
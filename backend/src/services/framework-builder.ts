@@ -3,7 +3,7 @@
  * Transforms unstructured prompts into framework-specific structured prompts
  */
 
-import { llmClient } from '../core/llm-client.js';
+import { llmClient, type CallContext, type StreamHandlers } from '../core/llm-client.js';
 import {
   RACE_FRAMEWORK_PROMPT,
   COSTAR_FRAMEWORK_PROMPT,
@@ -16,19 +16,41 @@ import { cleanXml, validateXml } from '../utils/delimiters.js';
  * Framework Builder class
  */
 export class FrameworkBuilder {
+  /**
+   * Run a framework meta-prompt, streaming when handlers are given
+   */
+  private async generate(
+    metaPrompt: string,
+    handlers: StreamHandlers | undefined,
+    context: CallContext
+  ): Promise<string> {
+    const options = {
+      ...context,
+      stage: 'framework_building' as const,
+      temperature: 0.7,
+      maxTokens: 32000, // High limit for framework generation
+      cache: true, // Rebuilding the same prompt with the same framework reuses the result
+    };
+
+    return handlers
+      ? await llmClient.completeStream(metaPrompt, handlers, options)
+      : await llmClient.complete(metaPrompt, options);
+  }
+
   /**
    * Build prompt using RACE framework
    */
-  async buildRace(userPrompt: string): Promise<string> {
+  async buildRace(
+    userPrompt: string,
+    handlers?: StreamHandlers,
+    context: CallContext = {}
+  ): Promise<string> {
     const metaPrompt = RACE_FRAMEWORK_PROMPT.replace(
       '{user_prompt}',
       userPrompt
     );
 
-    const structuredPrompt = await llmClient.complete(metaPrompt, {
-      temperature: 0.7,
-      maxTokens: 32000, // High limit for framework generation
-    });
+    const structuredPrompt = await this.generate(metaPrompt, handlers, context);
 
     // Validate XML structure (lenient - only warns on actual errors)
     const validation = validateXml(structuredPrompt);
@@ -45,16 +67,17 @@ export class FrameworkBuilder {
   /**
    * Build prompt using COSTAR framework
    */
-  async buildCostar(userPrompt: string): Promise<string> {
+  async buildCostar(
+    userPrompt: string,
+    handlers?: StreamHandlers,
+    context: CallContext = {}
+  ): Promise<string> {
     const metaPrompt = COSTAR_FRAMEWORK_PROMPT.replace(
       '{user_prompt}',
       userPrompt
     );
 
-    const structuredPrompt = await llmClient.complete(metaPrompt, {
-      temperature: 0.7,
-      maxTokens: 32000, // High limit for framework generation
-    });
+    const structuredPrompt = await this.generate(metaPrompt, handlers, context);
 
     const validation = validateXml(structuredPrompt);
     if (!validation.valid) {
@@ -70,16 +93,17 @@ export class FrameworkBuilder {
   /**
    * Build prompt using APE framework
    */
-  async buildApe(userPrompt: string): Promise<string> {
+  async buildApe(
+    userPrompt: string,
+    handlers?: StreamHandlers,
+    context: CallContext = {}
+  ): Promise<string> {
     const metaPrompt = APE_FRAMEWORK_PROMPT.replace(
       '{user_prompt}',
       userPrompt
     );
 
-    const structuredPrompt = await llmClient.complete(metaPrompt, {
-      temperature: 0.7,
-      maxTokens: 32000, // High limit for framework generation
-    });
+    const structuredPrompt = await this.generate(metaPrompt, handlers, context);
 
     const validation = validateXml(structuredPrompt);
     if (!validation.valid) {
@@ -95,16 +119,17 @@ export class FrameworkBuilder {
   /**
    * Build prompt using CREATE framework
    */
-  async buildCreate(userPrompt: string): Promise<string> {
+  async buildCreate(
+    userPrompt: string,
+    handlers?: StreamHandlers,
+    context: CallContext = {}
+  ): Promise<string> {
     const metaPrompt = CREATE_FRAMEWORK_PROMPT.replace(
       '{user_prompt}',
       userPrompt
     );
 
-    const structuredPrompt = await llmClient.complete(metaPrompt, {
-      temperature: 0.7,
-      maxTokens: 32000, // High limit for framework generation
-    });
+    const structuredPrompt = await this.generate(metaPrompt, handlers, context);
 
     const validation = validateXml(structuredPrompt);
     if (!validation.valid) {
@@ -119,22 +144,25 @@ export class FrameworkBuilder {
 
   /**
    * Build prompt using specified framework
+   * Pass handlers to stream the generated prompt as it is written
    */
   async build(
     userPrompt: string,
-    framework: 'RACE' | 'COSTAR' | 'APE' | 'CREATE'
+    framework: 'RACE' | 'COSTAR' | 'APE' | 'CREATE',
+    handlers?: StreamHandlers,
+    context: CallContext = {}
   ): Promise<string> {
     console.log(`[FRAMEWORK BUILDER] Building ${framework} prompt...`);
 
     switch (framework) {
       case 'RACE':
-        return await this.buildRace(userPrompt);
+        return await this.buildRace(userPrompt, handlers, context);
       case 'COSTAR':
-        return await this.buildCostar(userPrompt);
+        return await this.buildCostar(userPrompt, handlers, context);
       case 'APE':
-        return await this.buildApe(userPrompt);
+        return await this.buildApe(userPrompt, handlers, context);
       case 'CREATE':
-        return await this.buildCreate(userPrompt);
+        return await this.buildCreate(userPrompt, handlers, context);
       default:
         throw new Error(`Unsupported framework: ${framework}`);
     }
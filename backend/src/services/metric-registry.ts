@@ -0,0 +1,155 @@
+/**
+ * Metric Registry
+ * Evaluation metrics registered by ID; a request selects the metrics it is scored on and
+ * their aggregate weights, and may add custom LLM-judge metrics of its own
+ */
+
+import type { CallContext } from '../core/llm-client.js';
+import type { Criterion } from './dataset-generator.js';
+import type {
+  EvaluationDetails,
+  EvaluationOptions,
+  ExampleChecks,
+  JudgeVerdict,
+  MetricDetails,
+} from './evaluator.js';
+
+/**
+ * How a metric scores: built into the pipeline, computed deterministically from the output,
+ * or judged by an LLM
+ */
+export type MetricKind = 'builtin' | 'deterministic' | 'llm_judge';
+
+/**
+ * Everything a metric can score one example from
+ */
+export interface MetricInput {
+  prompt: string;
+  input: string;
+  /** Reference answer (null when the example has none) */
+  expectedOutput: string | null;
+  output: string;
+  /** Outputs of every run of the example (first = output) */
+  outputs: string[];
+  criteria: Criterion[];
+  checks: ExampleChecks;
+  context: CallContext;
+  options: EvaluationOptions;
+}
+
+/**
+ * Score of one metric on one example
+ */
+export interface MetricOutcome {
+  /** 0-100, or null when scoring failed (counted in judge failures) */
+  score: number | null;
+  /** LLM judge verdict, kept for feedback and panel agreement */
+  verdict?: JudgeVerdict | null;
+  /** Merged into the example's metrics (e.g. per-criterion rubric scores) */
+  metricDetails?: MetricDetails;
+  /** Merged into the example evaluation (e.g. per-test sandbox results) */
+  evaluationDetails?: EvaluationDetails;
+}
+
+export interface MetricDefinition {
+  id: string;
+  name: string;
+  kind: MetricKind;
+  description: string;
+  /** Aggregate weight when the request does not set one */
+  weight: number;
+  /** Scored when the request does not select metrics */
+  defaultSelected: boolean;
+  /** Score one example; undefined when the metric does not apply to it */
+  score(input: MetricInput): Promise<MetricOutcome | undefined>;
+}
+
+/**
+ * A metric chosen by a request, optionally with its own weight
+ */
+export interface MetricSelection {
+  id: string;
+  weight?: number;
+}
+
+/**
+ * A metric resolved for scoring
+ */
+export interface SelectedMetric {
+  definition: MetricDefinition;
+  weight: number;
+}
+
+/**
+ * Raised when a request selects a metric that is not registered, or reuses a registered ID
+ */
+export class MetricSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetricSelectionError';
+  }
+}
+
+/**
+ * Metric Registry class
+ */
+export class MetricRegistry {
+  private metrics = new Map<string, MetricDefinition>();
+
+  register(definition: MetricDefinition): void {
+    if (this.metrics.has(definition.id)) {
+      throw new Error(`Metric "${definition.id}" is already registered`);
+    }
+    this.metrics.set(definition.id, definition);
+  }
+
+  get(id: string): MetricDefinition | undefined {
+    return this.metrics.get(id);
+  }
+
+  list(): MetricDefinition[] {
+    return [...this.metrics.values()];
+  }
+
+  /**
+   * Resolve a request's metrics: the selected ones (default: every default metric) with
+   * their weights, then the request's own metrics
+   */
+  resolve(
+    selection: MetricSelection[] | undefined,
+    custom: MetricDefinition[] = []
+  ): SelectedMetric[] {
+    const selected = selection
+      ? selection.map(({ id, weight }) => {
+          const definition = this.metrics.get(id);
+          if (!definition) {
+            throw new MetricSelectionError(
+              `Unknown metric "${id}" (available: ${[...this.metrics.keys()].join(', ')})`
+            );
+          }
+          return { definition, weight: weight ?? definition.weight };
+        })
+      : this.list()
+          .filter((definition) => definition.defaultSelected)
+          .map((definition) => ({ definition, weight: definition.weight }));
+
+    for (const definition of custom) {
+      if (this.metrics.has(definition.id)) {
+        throw new MetricSelectionError(`Custom metric ID "${definition.id}" is already registered`);
+      }
+    }
+
+    const all = [...selected, ...custom.map((definition) => ({ definition, weight: definition.weight }))];
+    const ids = all.map(({ definition }) => definition.id);
+    const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+    if (duplicate) {
+      throw new MetricSelectionError(`Metric "${duplicate}" is selected more than once`);
+    }
+    return all;
+  }
+}
+
+/**
+ * Global metric registry (the evaluator registers the built-in metrics)
+ */
+export const metricRegistry = new MetricRegistry();
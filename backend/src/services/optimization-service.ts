@@ -4,12 +4,25 @@
  */
 
 import { frameworkBuilder } from './framework-builder.js';
-import { datasetGenerator } from './dataset-generator.js';
-import { evaluator, type Metrics } from './evaluator.js';
+import { datasetGenerator, loadDataset, type DatasetResult } from './dataset-generator.js';
+import { evaluator, type CustomMetric, type JudgePanel, type Metrics } from './evaluator.js';
+import type { MetricSelection } from './metric-registry.js';
 import { techniqueApplier } from './technique-applier.js';
+import {
+  outputsByExample,
+  tournament,
+  type TournamentEntry,
+  type TournamentExample,
+} from './tournament.js';
+import type { ReferenceMetric } from '../utils/reference-metrics.js';
+import { CancelledError, isCancellation } from '../core/cancellation.js';
 import { llmClient } from '../core/llm-client.js';
-import { createPrompt, createVersion } from '../db/crud.js';
-import type { EventQueue } from '../utils/streaming.js';
+import { UsageTracker, type UsageReport } from '../core/usage.js';
+import { createPrompt, createVersion, updatePrompt } from '../db/crud.js';
+import { createTokenStream, type EventQueue } from '../utils/streaming.js';
+import { buildExecutionMessages, type PromptFormat, type PromptLayout } from '../utils/messages.js';
+import { createSeededRandom, shuffle } from '../utils/random.js';
+import type { ChatMessage } from '../core/providers/index.js';
 
 /**
  * Optimization request interface
@@ -27,7 +40,21 @@ export interface OptimizationRequest {
   dataset_config: {
     example_count: number;
     difficulty_levels: string[];
+    dataset_id?: string;
   };
+  evaluation_config?: {
+    consistency_runs: number;
+    consistency_llm_check: boolean;
+    best_version_selection?: 'aggregate' | 'tournament';
+    judge_panel?: JudgePanel;
+    reference_metrics?: ReferenceMetric[];
+    pass_k?: number;
+  };
+  iteration_count?: number;
+  prompt_format?: PromptFormat;
+  messages?: ChatMessage[];
+  metrics?: MetricSelection[];
+  custom_metrics?: CustomMetric[];
 }
 
 /**
@@ -37,30 +64,65 @@ export interface OptimizationResult {
   prompt_id: string;
   best_version: {
     iteration: number;
+    version_id: string;
     prompt: string;
     metrics: Metrics;
   };
   all_versions: Array<{
     iteration: number;
+    version_id: string;
     prompt: string;
     metrics: Metrics;
   }>;
   total_time_seconds: number;
+  usage: UsageReport;
 }
 
 /**
  * Optimization Service class
  */
 export class OptimizationService {
+  /** Abort controllers of running optimizations, keyed by prompt ID */
+  private activeRuns = new Map<string, AbortController>();
+
   /**
    * Run the complete optimization pipeline
+   * Aborting the signal (e.g. on client disconnect) cancels the run, as does cancel()
    */
   async optimize(
     request: OptimizationRequest,
-    eventQueue: EventQueue
+    eventQueue: EventQueue,
+    signal?: AbortSignal
   ): Promise<OptimizationResult> {
     const startTime = Date.now();
 
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const runSignal = controller.signal;
+
+    // Usage for the whole run; each iteration gets a child tracker that rolls up into it
+    const runUsage = new UsageTracker();
+    // Stages without a configured model chain use the model requested for the run
+    const runContext = { usage: runUsage, signal: runSignal, runModel: request.parameters.model };
+    // Examples are executed the way the prompt runs in production
+    const layout: PromptLayout = {
+      format: request.prompt_format || 'plain',
+      messages: request.messages,
+    };
+    let promptId: string | null = null;
+    const versions: Array<{
+      iteration: number;
+      version_id: string;
+      prompt: string;
+      metrics: Metrics;
+    }> = [];
+    const useTournament = request.evaluation_config?.best_version_selection === 'tournament';
+    const tournamentEntries: TournamentEntry[] = [];
+
     console.log('[OPTIMIZATION] Starting optimization pipeline...');
 
     // Emit start event
@@ -71,39 +133,65 @@ export class OptimizationService {
 
     try {
       // Step 1: Store original prompt
-      const promptId = await createPrompt({
+      promptId = await createPrompt({
         originalPrompt: request.prompt,
         selectedFramework: request.selected_framework,
         techniquesEnabled: request.techniques_enabled,
         parameters: request.parameters,
+        datasetId: request.dataset_config.dataset_id,
       });
 
       console.log(`[OPTIMIZATION] Prompt stored with ID: ${promptId}`);
 
-      // Step 2: Generate synthetic dataset
-      console.log('[OPTIMIZATION] Generating synthetic dataset...');
-      const dataset = await datasetGenerator.generate(
-        promptId,
-        request.prompt,
-        {
-          exampleCount: request.dataset_config.example_count,
-          difficultyLevels: request.dataset_config.difficulty_levels,
+      this.activeRuns.set(promptId, controller);
+      eventQueue.push({
+        type: 'prompt_created',
+        data: { prompt_id: promptId },
+      });
+
+      // Step 2: Load the provided dataset, or generate a synthetic one
+      const datasetId = request.dataset_config.dataset_id;
+      let dataset: DatasetResult | null;
+      if (datasetId) {
+        console.log(`[OPTIMIZATION] Loading dataset ${datasetId}...`);
+        dataset = await loadDataset(datasetId);
+        if (!dataset) {
+          throw new Error(`Dataset ${datasetId} not found`);
         }
-      );
+      } else {
+        console.log('[OPTIMIZATION] Generating synthetic dataset...');
+        dataset = await datasetGenerator.generate(
+          promptId,
+          request.prompt,
+          {
+            exampleCount: request.dataset_config.example_count,
+            difficultyLevels: request.dataset_config.difficulty_levels,
+          },
+          runContext
+        );
+      }
 
       eventQueue.push({
         type: 'dataset_generated',
         data: {
+          dataset_id: dataset.id,
           example_count: dataset.examples.length,
           domain: dataset.domain,
         },
       });
 
+      const tournamentExamples: TournamentExample[] = dataset.examples.map((example) => ({
+        input: example.input,
+        expectedOutput: example.expected_output ?? null,
+      }));
+
       // Step 3: Build initial framework-structured prompt
       console.log('[OPTIMIZATION] Building framework-structured prompt...');
       let currentPrompt = await frameworkBuilder.build(
         request.prompt,
-        request.selected_framework
+        request.selected_framework,
+        createTokenStream(eventQueue, { stage: 'framework_building' }),
+        runContext
       );
 
       // Apply initial techniques (CoT if enabled)
@@ -115,14 +203,13 @@ export class OptimizationService {
 
       // Step 4: Run configurable iteration optimization loop (1-3 iterations)
       const iterationCount = request.iteration_count || 1;
-      const versions: Array<{
-        iteration: number;
-        prompt: string;
-        metrics: Metrics;
-      }> = [];
 
       for (let iteration = 1; iteration <= iterationCount; iteration++) {
+        runSignal.throwIfAborted();
+
         const iterationStart = Date.now();
+        const iterationUsage = new UsageTracker(runUsage);
+        const iterationContext = { ...runContext, usage: iterationUsage };
 
         console.log(`\n[OPTIMIZATION] === Iteration ${iteration}/${iterationCount} ===`);
 
@@ -137,78 +224,111 @@ export class OptimizationService {
         // Execute prompt on a sample of examples (for speed)
         // Sample 5 examples randomly for evaluation (instead of all 15+)
         const sampleSize = Math.min(5, dataset.examples.length);
-        const sampledExamples = dataset.examples
-          .sort(() => Math.random() - 0.5)
-          .slice(0, sampleSize);
+        // Cassette runs use a seeded shuffle so every replay samples the same examples;
+        // tournaments compare versions on shared inputs, so every iteration gets the same sample
+        const random =
+          useTournament || llmClient.isCassetteActive()
+            ? createSeededRandom(useTournament ? request.prompt : `${request.prompt}:${iteration}`)
+            : Math.random;
+        const sampledExamples = shuffle(
+          dataset.examples.map((example, index) => ({ ...example, index })),
+          random
+        ).slice(0, sampleSize);
 
         console.log(`[OPTIMIZATION] Evaluating ${sampleSize} sampled examples (out of ${dataset.examples.length} total)`);
 
-        const outputs: string[] = [];
-        const evaluationExamples: Array<{
-          input: string;
-          expectedOutput: string;
-          actualOutput: string;
-        }> = [];
-
         // Push executing_tests event
         eventQueue.push({
           type: 'executing_tests',
           data: { count: sampleSize, iteration },
         });
 
-        for (let i = 0; i < sampledExamples.length; i++) {
-          const example = sampledExamples[i];
-          if (!example) continue;
-
-          console.log(`[OPTIMIZATION] Executing example ${i + 1}/${sampleSize}...`);
-          
-          // Push progress event
-          eventQueue.push({
-            type: 'test_progress',
-            data: { current: i + 1, total: sampleSize, iteration },
-          });
-          
-          let output: string;
-
-          // Apply technique-specific execution
-          if (request.techniques_enabled.includes('self_consistency')) {
-            // Self-consistency: Generate multiple paths and select best (3 LLM calls per example)
-            console.log(`[OPTIMIZATION] Applying self-consistency (3 paths) for example ${i + 1}...`);
-            
-            eventQueue.push({
-              type: 'applying_technique',
-              data: { technique: 'self_consistency', iteration },
-            });
-            
-            output = await techniqueApplier.applySelfConsistency(
-              currentPrompt,
-              example.input,
-              3 // 3 paths
+        // Examples run in parallel; the request scheduler enforces provider limits
+        let completed = 0;
+        const consistencyRuns = request.evaluation_config?.consistency_runs ?? 1;
+        const evaluationExamples = await Promise.all(
+          sampledExamples.map(async (example, i) => {
+            console.log(`[OPTIMIZATION] Executing example ${i + 1}/${sampleSize}...`);
+
+            // Repeat runs (for consistency scoring) stay silent and bypass the completion cache
+            const execute = async (run: number): Promise<string> => {
+              // Apply technique-specific execution
+              if (request.techniques_enabled.includes('self_consistency')) {
+                // Self-consistency: Generate multiple paths and select best (3 LLM calls per example)
+                if (run === 0) {
+                  console.log(`[OPTIMIZATION] Applying self-consistency (3 paths) for example ${i + 1}...`);
+
+                  eventQueue.push({
+                    type: 'applying_technique',
+                    data: { technique: 'self_consistency', iteration },
+                  });
+                }
+
+                return techniqueApplier.applySelfConsistency(
+                  currentPrompt,
+                  example.input,
+                  3, // 3 paths
+                  iterationContext,
+                  layout
+                );
+              } else if (request.techniques_enabled.includes('tot')) {
+                if (run === 0) {
+                  eventQueue.push({
+                    type: 'applying_technique',
+                    data: { technique: 'tree_of_thoughts', iteration },
+                  });
+                }
+
+                const totResult = await techniqueApplier.applyTreeOfThoughts(
+                  currentPrompt,
+                  example.input,
+                  {},
+                  iterationContext,
+                  layout
+                );
+                return totResult.output;
+              }
+
+              // Standard execution (1 LLM call per example)
+              const messages = buildExecutionMessages(currentPrompt, example.input, layout);
+              const options = {
+                ...iterationContext,
+                stage: 'execution' as const,
+                temperature: request.parameters.temperature,
+                topP: request.parameters.top_p,
+                maxTokens: request.parameters.max_tokens,
+              };
+              return run === 0
+                ? llmClient.completeMessagesStream(
+                    messages,
+                    createTokenStream(eventQueue, { stage: 'execution', iteration, example_index: i }),
+                    options
+                  )
+                : llmClient.completeMessages(messages, { ...options, cache: false });
+            };
+
+            const outputs = await Promise.all(
+              Array.from({ length: consistencyRuns }, (_, run) => execute(run))
             );
-          } else if (request.techniques_enabled.includes('tot')) {
+
+            // Push progress event
+            completed++;
             eventQueue.push({
-              type: 'applying_technique',
-              data: { technique: 'tree_of_thoughts', iteration },
+              type: 'test_progress',
+              data: { current: completed, total: sampleSize, iteration },
             });
-            
-            const totResult = await techniqueApplier.applyTreeOfThoughts(
-              currentPrompt,
-              example.input
-            );
-            output = totResult.output;
-          } else {
-            // Standard execution (1 LLM call per example)
-            const fullPrompt = `${currentPrompt}\n\nInput: ${example.input}`;
-            output = await llmClient.complete(fullPrompt, request.parameters);
-          }
 
-          outputs.push(output);
-          evaluationExamples.push({
-            input: example.input,
-            expectedOutput: example.expected_output,
-            actualOutput: output,
-          });
-        }
+            return {
+              input: example.input,
+              expectedOutput: example.expected_output ?? null,
+              actualOutput: outputs[0] ?? '',
+              exampleIndex: example.index,
+              outputs,
+              tests: example.tests,
+              assertions: example.assertions,
+            };
+          })
+        );
 
         // Evaluate
         console.log('[OPTIMIZATION] Evaluating iteration...');
@@ -218,31 +338,55 @@ export class OptimizationService {
           data: { iteration },
         });
         
-        const { metrics, evaluations } = await evaluator.evaluateDataset(
+        const { metrics, evaluations, failures } = await evaluator.evaluateDataset(
           currentPrompt,
-          evaluationExamples
+          evaluationExamples,
+          iterationContext,
+          dataset.criteria,
+          {
+            metrics: evaluator.resolveMetrics(
+              request.metrics,
+              request.custom_metrics,
+              request.evaluation_config?.reference_metrics
+            ),
+            consistencyLlmCheck: request.evaluation_config?.consistency_llm_check,
+            panel: request.evaluation_config?.judge_panel,
+            passK: request.evaluation_config?.pass_k,
+          }
         );
         
         eventQueue.push({
           type: 'metrics_calculated',
-          data: { metrics, iteration },
+          data: { metrics, judge_failures: failures, iteration },
         });
 
+        // Only fully evaluated iterations are stored
+        runSignal.throwIfAborted();
+        // Scores resting on too few successful judgments would mislead version selection
+        evaluator.checkFailures(failures, evaluations.length);
+
         // Store version
-        await createVersion({
+        const versionId = await createVersion({
           promptId,
           iterationNumber: iteration,
           promptText: currentPrompt,
           metrics,
           evaluationDetails: evaluations,
           techniquesApplied: request.techniques_enabled,
+          usage: iterationUsage.report(),
         });
 
         versions.push({
           iteration,
+          version_id: versionId,
           prompt: currentPrompt,
           metrics,
         });
+        tournamentEntries.push({
+          id: versionId,
+          iteration,
+          outputs: outputsByExample(evaluations, tournamentExamples),
+        });
 
         const iterationDuration = (Date.now() - iterationStart) / 1000;
 
@@ -251,11 +395,14 @@ export class OptimizationService {
           type: 'iteration_complete',
           data: {
             iteration,
+            version_id: versionId,
             prompt_version: currentPrompt,
             metrics,
+            judge_failures: failures,
             evaluation_details: evaluations,
             techniques: request.techniques_enabled,
             duration_seconds: iterationDuration,
+            usage: iterationUsage.report(),
           },
         });
 
@@ -273,7 +420,11 @@ export class OptimizationService {
           
           const { improved, critique } = await techniqueApplier.applyRSIP(
             currentPrompt,
-            metrics
+            metrics,
+            (step) => createTokenStream(eventQueue, { stage: 'rsip', step, iteration }),
+            // RSIP produces the next version's prompt, so it counts toward the run total only
+            runContext,
+            evaluations
           );
           currentPrompt = improved;
           
@@ -285,16 +436,46 @@ export class OptimizationService {
       }
 
       // Step 5: Select best version
-      const bestVersion = versions.reduce((best, current) =>
+      let bestVersion = versions.reduce((best, current) =>
         current.metrics.aggregate_score > best.metrics.aggregate_score
           ? current
           : best
       );
 
+      if (useTournament && versions.length > 1) {
+        console.log('[OPTIMIZATION] Ranking versions by pairwise tournament...');
+
+        eventQueue.push({
+          type: 'running_tournament',
+          data: { version_count: versions.length },
+        });
+
+        const { standings, failures } = await tournament.run(
+          tournamentEntries,
+          tournamentExamples,
+          runContext
+        );
+
+        eventQueue.push({
+          type: 'tournament_complete',
+          data: { standings, failures },
+        });
+
+        const winner = standings[0];
+        bestVersion = versions.find((v) => v.iteration === winner?.iteration) ?? bestVersion;
+      }
+
       console.log(`\n[OPTIMIZATION] Best version: Iteration ${bestVersion.iteration}`);
       console.log(`[OPTIMIZATION] Best score: ${bestVersion.metrics.aggregate_score}`);
 
       const totalTime = (Date.now() - startTime) / 1000;
+      const usage = runUsage.report();
+
+      await updatePrompt(promptId, { usage, status: 'completed' });
+
+      console.log(
+        `[OPTIMIZATION] Usage: ${usage.total_tokens} tokens, $${usage.cost_usd.toFixed(4)}`
+      );
 
       // Emit completion
       eventQueue.push({
@@ -303,6 +484,7 @@ export class OptimizationService {
           best_version: bestVersion,
           all_versions: versions,
           total_time_seconds: totalTime,
+          usage,
         },
       });
 
@@ -316,9 +498,42 @@ export class OptimizationService {
         best_version: bestVersion,
         all_versions: versions,
         total_time_seconds: totalTime,
+        usage,
       };
     } catch (error) {
-      console.error('[OPTIMIZATION ERROR]', error);
+      const cancelled = isCancellation(error, runSignal);
+      // Parallel calls still in flight (e.g. sibling examples of a failed one) stop spending
+      if (!cancelled) {
+        controller.abort(new CancelledError('Optimization failed'));
+      }
+      const usage = runUsage.report();
+
+      if (cancelled) {
+        console.log(`[OPTIMIZATION] Cancelled after ${versions.length} completed iteration(s)`);
+      } else {
+        console.error('[OPTIMIZATION ERROR]', error);
+      }
+
+      // Keep the status and spend of unfinished runs on record (completed versions stay stored)
+      if (promptId) {
+        await updatePrompt(promptId, {
+          usage,
+          status: cancelled ? 'cancelled' : 'failed',
+        }).catch((saveError) => console.error('[OPTIMIZATION] Failed to save run status:', saveError));
+      }
+
+      if (cancelled) {
+        eventQueue.push({
+          type: 'optimization_cancelled',
+          data: {
+            prompt_id: promptId,
+            completed_iterations: versions.length,
+            usage,
+          },
+        });
+        eventQueue.close();
+        throw error;
+      }
 
       // Emit error event
       eventQueue.push({
@@ -332,7 +547,27 @@ export class OptimizationService {
       eventQueue.close();
 
       throw error;
+    } finally {
+      if (promptId) {
+        this.activeRuns.delete(promptId);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * Cancel a running optimization
+   * Returns false when no run with that prompt ID is active
+   */
+  cancel(promptId: string): boolean {
+    const controller = this.activeRuns.get(promptId);
+    if (!controller) {
+      return false;
     }
+
+    console.log(`[OPTIMIZATION] Cancelling run ${promptId}`);
+    controller.abort(new CancelledError('Optimization cancelled by user'));
+    return true;
   }
 }
 
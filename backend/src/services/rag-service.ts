@@ -33,15 +33,20 @@ export class RAGService {
 
   /**
    * Upload and process a document
+   * embeddingModel only applies when the upload creates the collection
    */
   async uploadDocument(
     collectionName: string,
     title: string,
     content: string,
-    metadata?: Record<string, any>
+    metadata?: Record<string, any>,
+    embeddingModel?: string
   ): Promise<string> {
     console.log(`[RAG] Uploading document "${title}" to collection "${collectionName}"...`);
 
+    // Resolve (and validate) the collection's embedding model before storing anything
+    await vectorStore.getEmbeddingModel(collectionName, embeddingModel);
+
     // Store document in database
     const documentId = await createDocument({
       collectionName,
@@ -85,7 +90,7 @@ export class RAGService {
     }
 
     // Add to vector store
-    await vectorStore.addDocuments(collectionName, vectorDocs);
+    await vectorStore.addDocuments(collectionName, vectorDocs, embeddingModel);
 
     console.log(`[RAG] Document "${title}" uploaded successfully`);
 
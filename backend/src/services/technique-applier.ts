@@ -3,11 +3,21 @@
  * Applies various prompt optimization techniques
  */
 
-import { llmClient } from '../core/llm-client.js';
+import { contextBudget, selectContextChunks } from '../core/context-budget.js';
+import { llmClient, type CallContext, type StreamHandlers } from '../core/llm-client.js';
+import type { ChatMessage } from '../core/providers/index.js';
 import { vectorStore } from '../core/vector-store.js';
+import { appConfig } from '../config.js';
 import { RSIP_CRITIQUE_PROMPT, RSIP_IMPROVEMENT_PROMPT } from '../prompts/meta-optimizer.js';
 import { wrapTag, extractTag, cleanXml } from '../utils/delimiters.js';
-import type { Metrics } from './evaluator.js';
+import { buildExecutionMessages, PLAIN_LAYOUT, type PromptLayout } from '../utils/messages.js';
+import type { ExampleEvaluation, JudgeVerdict, Metrics } from './evaluator.js';
+import { metricRegistry } from './metric-registry.js';
+
+/**
+ * Lowest-scoring examples whose judge rationales are passed to the RSIP critique
+ */
+const RSIP_FEEDBACK_EXAMPLES = 3;
 
 /**
  * Technique Applier class
@@ -47,25 +57,25 @@ export class TechniqueApplier {
   async applySelfConsistency(
     prompt: string,
     input: string,
-    paths: number = 3
+    paths: number = 3,
+    context: CallContext = {},
+    layout: PromptLayout = PLAIN_LAYOUT
   ): Promise<string> {
     console.log(`[TECHNIQUE] Applying Self-Consistency with ${paths} paths...`);
 
-    const outputs: string[] = [];
+    const messages = buildExecutionMessages(prompt, input, layout);
 
-    // Generate multiple outputs with varying temperature
-    for (let i = 0; i < paths; i++) {
-      const temperature = 0.7 + (i * 0.2); // 0.7, 0.9, 1.1
-      
-      const fullPrompt = `${prompt}\n\nInput: ${input}`;
-      
-      const output = await llmClient.complete(fullPrompt, {
-        temperature,
-        maxTokens: 32000, // High limit for technique application
-      });
-      
-      outputs.push(output);
-    }
+    // Generate multiple outputs with varying temperature (paths are independent, so run in parallel)
+    const outputs = await Promise.all(
+      Array.from({ length: paths }, (_, i) =>
+        llmClient.completeMessages(messages, {
+          ...context,
+          stage: 'execution',
+          temperature: 0.7 + i * 0.2, // 0.7, 0.9, 1.1
+          maxTokens: 32000, // High limit for technique application
+        })
+      )
+    );
 
     // Select the most consistent answer (majority voting or most common pattern)
     // For simplicity, return the first output (in production, implement proper voting)
@@ -77,6 +87,7 @@ export class TechniqueApplier {
   /**
    * Apply Tree of Thoughts (ToT)
    * Explores multiple reasoning branches and selects the best path
+   * Branches run on the prompt's execution messages; each step continues the conversation
    */
   async applyTreeOfThoughts(
     prompt: string,
@@ -85,7 +96,9 @@ export class TechniqueApplier {
       depth?: number;
       branches?: number;
       threshold?: number;
-    } = {}
+    } = {},
+    context: CallContext = {},
+    layout: PromptLayout = PLAIN_LAYOUT
   ): Promise<{ output: string; tree: any }> {
     const { depth = 2, branches = 3, threshold = 50 } = config;
     
@@ -105,6 +118,24 @@ export class TechniqueApplier {
       children: [],
     };
 
+    const instruction = 'Generate the next step in reasoning (be brief):';
+    const messages = buildExecutionMessages(prompt, input, layout);
+    const last = messages[messages.length - 1];
+
+    // The first step asks within the input's turn; later steps follow the previous thought
+    const stepMessages = (node: ThoughtNode): ChatMessage[] => {
+      if (node !== root) {
+        return [
+          ...messages,
+          { role: 'assistant', content: node.thought },
+          { role: 'user', content: instruction },
+        ];
+      }
+      return last?.role === 'user'
+        ? [...messages.slice(0, -1), { role: 'user', content: `${last.content}\n\n${instruction}` }]
+        : [...messages, { role: 'user', content: instruction }];
+    };
+
     // Recursive function to explore branches
     const exploreBranch = async (
       node: ThoughtNode,
@@ -116,9 +147,9 @@ export class TechniqueApplier {
 
       // Generate multiple thought branches
       for (let i = 0; i < branches; i++) {
-        const branchPrompt = `${prompt}\n\nCurrent thought: ${node.thought}\n\nGenerate the next step in reasoning (be brief):`;
-        
-        const thought = await llmClient.complete(branchPrompt, {
+        const thought = await llmClient.completeMessages(stepMessages(node), {
+          ...context,
+          stage: 'execution',
           temperature: 0.8,
           maxTokens: 16000, // High limit for self-consistency iterations
         });
@@ -173,32 +204,32 @@ export class TechniqueApplier {
 
   /**
    * Apply RSIP (Recursive Self-Improvement Prompting)
-   * Generates critique and improved version
+   * Generates critique and improved version; judge rationales from the evaluations
+   * tell the critique why examples scored low
    */
   async applyRSIP(
     prompt: string,
-    metrics?: Metrics
+    metrics?: Metrics,
+    stream?: (step: 'critique' | 'improvement') => StreamHandlers,
+    context: CallContext = {},
+    evaluations: ExampleEvaluation[] = []
   ): Promise<{ improved: string; critique: string }> {
     console.log('[TECHNIQUE] Applying RSIP...');
 
     // Generate critique
-    let critiquePrompt = RSIP_CRITIQUE_PROMPT.replace('{prompt}', prompt);
-    
-    if (metrics) {
-      critiquePrompt = critiquePrompt
-        .replace('{relevance}', metrics.relevance.toString())
-        .replace('{accuracy}', metrics.accuracy.toString())
-        .replace('{consistency}', metrics.consistency.toString())
-        .replace('{efficiency}', metrics.efficiency.toString())
-        .replace('{readability}', metrics.readability.toString());
-    } else {
-      critiquePrompt = critiquePrompt.replace(/Current Metrics:[\s\S]*?Readability: \{readability\}\/100\n\n/, '');
-    }
+    const critiquePrompt = RSIP_CRITIQUE_PROMPT.replace('{prompt}', prompt)
+      .replace('{metrics}', metrics ? this.formatMetrics(metrics) : '')
+      .replace('{judge_feedback}', this.formatJudgeFeedback(evaluations));
 
-    const critique = await llmClient.complete(critiquePrompt, {
+    const critiqueOptions = {
+      ...context,
+      stage: 'rsip' as const,
       temperature: 0.5,
       maxTokens: 16000, // High limit for critique generation
-    });
+    };
+    const critique = stream
+      ? await llmClient.completeStream(critiquePrompt, stream('critique'), critiqueOptions)
+      : await llmClient.complete(critiquePrompt, critiqueOptions);
 
     console.log('[TECHNIQUE] Critique generated, generating improvement...');
 
@@ -207,10 +238,15 @@ export class TechniqueApplier {
       .replace('{prompt}', prompt)
       .replace('{critique}', critique);
 
-    const improved = await llmClient.complete(improvementPrompt, {
+    const improvementOptions = {
+      ...context,
+      stage: 'rsip' as const,
       temperature: 0.7,
       maxTokens: 48000, // Very high limit for improved prompt generation
-    });
+    };
+    const improved = stream
+      ? await llmClient.completeStream(improvementPrompt, stream('improvement'), improvementOptions)
+      : await llmClient.complete(improvementPrompt, improvementOptions);
 
     console.log('[TECHNIQUE] RSIP complete');
 
@@ -220,21 +256,82 @@ export class TechniqueApplier {
     };
   }
 
+  /**
+   * Current score of each evaluated metric, for the RSIP critique
+   */
+  private formatMetrics(metrics: Metrics): string {
+    const lines = Object.entries(metrics.scores).map(([id, value]) => {
+      const name = metricRegistry.get(id)?.name ?? id;
+      return `- ${name}: ${value === null ? 'not scored (judge failed)' : `${value}/100`}`;
+    });
+
+    return lines.length > 0 ? `Current Metrics:\n${lines.join('\n')}\n\n` : '';
+  }
+
+  /**
+   * Judge rationales and issues of the lowest-scoring examples, for the RSIP critique
+   */
+  private formatJudgeFeedback(evaluations: ExampleEvaluation[]): string {
+    const worst = [...evaluations]
+      .sort((a, b) => a.metrics.aggregate_score - b.metrics.aggregate_score)
+      .slice(0, RSIP_FEEDBACK_EXAMPLES);
+
+    if (worst.length === 0) {
+      return '';
+    }
+
+    const sections = worst.map((evaluation, index) => {
+      const input =
+        evaluation.input.length > 300 ? `${evaluation.input.slice(0, 300)}...` : evaluation.input;
+      const verdicts = Object.entries(evaluation.verdicts)
+        .filter((entry): entry is [string, JudgeVerdict] => entry[1] !== null)
+        .map(([metric, verdict]) => {
+          const issues = verdict.issues.length > 0 ? ` Issues: ${verdict.issues.join('; ')}` : '';
+          return `- ${metric} ${verdict.score}: ${verdict.rationale}${issues}`;
+        })
+        .join('\n');
+      const failedAssertions = (evaluation.assertions ?? [])
+        .filter((assertion) => !assertion.passed)
+        .map((assertion) => `\n- failed requirement: ${assertion.message}`)
+        .join('');
+
+      return `Example ${index + 1} (score ${evaluation.metrics.aggregate_score})\nInput: ${input}\n${verdicts}${failedAssertions}`;
+    });
+
+    return `Judge Feedback (lowest-scoring examples):\n${sections.join('\n\n')}\n\n`;
+  }
+
   /**
    * Apply RAG (Retrieval-Augmented Generation)
-   * Retrieves relevant context and injects it into the prompt
+   * Retrieves relevant context and injects it into the prompt, keeping the most relevant
+   * chunks that fit in the room the prompt, query and maxTokens leave in the model's window
    */
   async applyRAG(
     prompt: string,
     query: string,
     collectionName: string = 'knowledge_base',
-    topK: number = 3
+    topK: number = 3,
+    model: string = appConfig.defaultModel,
+    maxTokens: number = 4000
   ): Promise<string> {
     console.log(`[TECHNIQUE] Applying RAG (retrieving top ${topK} documents)...`);
 
     try {
       // Retrieve relevant documents
-      const results = await vectorStore.query(collectionName, query, { topK });
+      const retrieved = await vectorStore.query(collectionName, query, { topK });
+      const countTokens = (text: string) => llmClient.countTokens(text, model);
+      const maxContextTokens = contextBudget(
+        model,
+        countTokens(prompt) + countTokens(query),
+        maxTokens
+      );
+      const results = selectContextChunks(retrieved, maxContextTokens, countTokens);
+
+      if (results.length < retrieved.length) {
+        console.log(
+          `[TECHNIQUE] Trimmed RAG context to ${results.length}/${retrieved.length} chunks (${maxContextTokens} token budget)`
+        );
+      }
 
       if (results.length === 0) {
         console.log('[TECHNIQUE] No relevant documents found, returning original prompt');
@@ -273,7 +370,10 @@ export class TechniqueApplier {
    * Apply Prompt Chaining
    * Executes multiple prompts sequentially, passing output as input
    */
-  async applyPromptChaining(prompts: string[]): Promise<string[]> {
+  async applyPromptChaining(
+    prompts: string[],
+    context: CallContext = {}
+  ): Promise<string[]> {
     console.log(`[TECHNIQUE] Applying Prompt Chaining with ${prompts.length} steps...`);
 
     const results: string[] = [];
@@ -291,6 +391,8 @@ export class TechniqueApplier {
       console.log(`[TECHNIQUE] Executing chain step ${i + 1}/${prompts.length}...`);
 
       const output = await llmClient.complete(fullPrompt, {
+        ...context,
+        stage: 'execution',
         temperature: 0.7,
         maxTokens: 32000, // High limit for technique application
       });
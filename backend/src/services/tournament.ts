@@ -0,0 +1,326 @@
+/**
+ * Tournament Service
+ * Ranks prompt versions by pairwise judging of their outputs (Bradley-Terry model)
+ */
+
+import { z } from 'zod';
+import { isCancellation } from '../core/cancellation.js';
+import { llmClient, type CallContext } from '../core/llm-client.js';
+import { PAIRWISE_COMPARISON_PROMPT } from '../prompts/evaluation-prompts.js';
+
+/**
+ * A version taking part in a tournament, with its outputs keyed by example index
+ * (inputs are not unique: an uploaded dataset may repeat one with different references)
+ */
+export interface TournamentEntry {
+  id: string;
+  iteration: number;
+  outputs: Record<number, string>;
+}
+
+/**
+ * Dataset example the versions are compared on
+ */
+export interface TournamentExample {
+  input: string;
+  /** Reference answer (null when the example has none) */
+  expectedOutput: string | null;
+}
+
+/**
+ * Outcome of comparing two versions on one example
+ * score is version A's share of the win (1 = A won both orders, 0.5 = tie or split)
+ */
+export interface PairwiseMatch {
+  version_a: string;
+  version_b: string;
+  example_index: number;
+  input: string;
+  score: number;
+  rationales: string[];
+}
+
+/**
+ * Ranking of one version
+ */
+export interface TournamentStanding {
+  version_id: string;
+  iteration: number;
+  /** Bradley-Terry strength on an Elo-like scale (1000 = average version) */
+  rating: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+/**
+ * Tournament result
+ */
+export interface TournamentResult {
+  standings: TournamentStanding[];
+  matches: PairwiseMatch[];
+  /** Comparisons where both judge calls failed (left out of the ranking) */
+  failures: number;
+}
+
+/**
+ * Virtual tie added between every pair of versions, so versions that never met (no
+ * shared examples) or won every match still get finite, comparable strengths
+ */
+const PRIOR_GAMES = 1;
+
+/**
+ * Bradley-Terry fitting (minorization-maximization) iteration limit and tolerance
+ */
+const MAX_ITERATIONS = 200;
+const TOLERANCE = 1e-6;
+
+const PairwiseVerdictSchema = z.object({
+  winner: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim().toUpperCase() : value),
+    z.enum(['A', 'B', 'TIE'])
+  ),
+  rationale: z.string().min(1),
+});
+
+/**
+ * Outputs of a version's evaluations keyed by the index of their example
+ * Evaluations stored without an index are matched to the first example with their input
+ */
+export function outputsByExample(
+  evaluations: Array<{ example_index?: number; input: string; output: string }>,
+  examples: TournamentExample[]
+): Record<number, string> {
+  const outputs: Record<number, string> = {};
+  for (const evaluation of evaluations) {
+    const index =
+      evaluation.example_index ??
+      examples.findIndex((example) => example.input === evaluation.input);
+    if (index >= 0) {
+      outputs[index] = evaluation.output;
+    }
+  }
+  return outputs;
+}
+
+/**
+ * Tournament class
+ */
+export class Tournament {
+  /**
+   * Ask the judge which of two outputs is better, in one presentation order
+   * Returns the first output's score (1, 0.5 or 0), or null when judging failed
+   */
+  private async judgeOrder(
+    example: TournamentExample,
+    first: string,
+    second: string,
+    context: CallContext
+  ): Promise<{ score: number; rationale: string } | null> {
+    const prompt = PAIRWISE_COMPARISON_PROMPT.replace('{input}', example.input)
+      .replace('{expected_output}', example.expectedOutput ?? 'None provided')
+      .replace('{output_a}', first)
+      .replace('{output_b}', second);
+
+    try {
+      const verdict = await llmClient.completeStructured(prompt, PairwiseVerdictSchema, {
+        ...context,
+        stage: 'judging',
+        temperature: 0.1,
+        maxTokens: 1000,
+      });
+      const score = verdict.winner === 'A' ? 1 : verdict.winner === 'B' ? 0 : 0.5;
+      return { score, rationale: verdict.rationale };
+    } catch (error) {
+      if (isCancellation(error, context.signal)) {
+        throw error;
+      }
+      console.error('[TOURNAMENT] Pairwise judging failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compare two outputs for the same example
+   * The judge sees both presentation orders, which cancels its position bias; the
+   * result is A's average score over the orders that were judged
+   */
+  async compare(
+    example: TournamentExample,
+    outputA: string,
+    outputB: string,
+    context: CallContext = {}
+  ): Promise<{ score: number; rationales: string[] } | null> {
+    const [forward, swapped] = await Promise.all([
+      this.judgeOrder(example, outputA, outputB, context),
+      this.judgeOrder(example, outputB, outputA, context),
+    ]);
+
+    const scores: number[] = [];
+    const rationales: string[] = [];
+    if (forward) {
+      scores.push(forward.score);
+      rationales.push(forward.rationale);
+    }
+    if (swapped) {
+      scores.push(1 - swapped.score);
+      rationales.push(swapped.rationale);
+    }
+
+    if (scores.length === 0) {
+      return null;
+    }
+    return { score: scores.reduce((a, b) => a + b, 0) / scores.length, rationales };
+  }
+
+  /**
+   * Fit Bradley-Terry strengths from pairwise scores
+   * wins[i * n + j] is how often i beat j (ties count half), games[i * n + j] how often
+   * they met
+   */
+  private fitBradleyTerry(n: number, wins: number[], games: number[]): number[] {
+    let strengths = new Array<number>(n).fill(1);
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const next = strengths.map((strength, i) => {
+        let totalWins = 0;
+        let denominator = 0;
+        strengths.forEach((opponent, j) => {
+          if (i === j) return;
+          totalWins += wins[i * n + j] ?? 0;
+          denominator += (games[i * n + j] ?? 0) / (strength + opponent);
+        });
+        return denominator > 0 ? totalWins / denominator : strength;
+      });
+
+      // Strengths are only defined up to scale; pin their geometric mean to 1
+      const logMean = next.reduce((sum, s) => sum + Math.log(s), 0) / n;
+      const normalized = next.map((s) => s / Math.exp(logMean));
+
+      const change = Math.max(...normalized.map((s, i) => Math.abs(s - (strengths[i] ?? 1))));
+      strengths = normalized;
+      if (change < TOLERANCE) break;
+    }
+
+    return strengths;
+  }
+
+  /**
+   * Rank versions by comparing every pair on every example both have an output for
+   */
+  async run(
+    entries: TournamentEntry[],
+    examples: TournamentExample[],
+    context: CallContext = {}
+  ): Promise<TournamentResult> {
+    const n = entries.length;
+    const pairings: Array<{
+      a: number;
+      b: number;
+      index: number;
+      example: TournamentExample;
+      outputA: string;
+      outputB: string;
+    }> = [];
+
+    entries.forEach((entryA, a) => {
+      entries.slice(a + 1).forEach((entryB, offset) => {
+        examples.forEach((example, index) => {
+          const outputA = entryA.outputs[index];
+          const outputB = entryB.outputs[index];
+          if (outputA !== undefined && outputB !== undefined) {
+            pairings.push({ a, b: a + 1 + offset, index, example, outputA, outputB });
+          }
+        });
+      });
+    });
+
+    console.log(
+      `[TOURNAMENT] Ranking ${n} versions over ${pairings.length} pairwise comparisons...`
+    );
+
+    // Comparisons run in parallel; the request scheduler enforces provider limits
+    const results = await Promise.all(
+      pairings.map(({ example, outputA, outputB }) =>
+        this.compare(example, outputA, outputB, context)
+      )
+    );
+
+    const wins = new Array<number>(n * n).fill(0);
+    const games = new Array<number>(n * n).fill(0);
+    const records = entries.map(() => ({ wins: 0, losses: 0, ties: 0 }));
+    const matches: PairwiseMatch[] = [];
+    let failures = 0;
+
+    const record = (a: number, b: number, scoreA: number, weight: number) => {
+      wins[a * n + b] = (wins[a * n + b] ?? 0) + scoreA * weight;
+      wins[b * n + a] = (wins[b * n + a] ?? 0) + (1 - scoreA) * weight;
+      games[a * n + b] = (games[a * n + b] ?? 0) + weight;
+      games[b * n + a] = (games[b * n + a] ?? 0) + weight;
+    };
+
+    for (let a = 0; a < n; a++) {
+      for (let b = a + 1; b < n; b++) {
+        record(a, b, 0.5, PRIOR_GAMES);
+      }
+    }
+
+    pairings.forEach(({ a, b, index: exampleIndex, example }, index) => {
+      const result = results[index];
+      const recordA = records[a];
+      const recordB = records[b];
+      if (!result || !recordA || !recordB) {
+        failures++;
+        return;
+      }
+
+      record(a, b, result.score, 1);
+      if (result.score > 0.5) {
+        recordA.wins++;
+        recordB.losses++;
+      } else if (result.score < 0.5) {
+        recordA.losses++;
+        recordB.wins++;
+      } else {
+        recordA.ties++;
+        recordB.ties++;
+      }
+
+      matches.push({
+        version_a: entries[a]?.id ?? '',
+        version_b: entries[b]?.id ?? '',
+        example_index: exampleIndex,
+        input: example.input,
+        score: result.score,
+        rationales: result.rationales,
+      });
+    });
+
+    const strengths = n > 0 ? this.fitBradleyTerry(n, wins, games) : [];
+    const standings: TournamentStanding[] = entries
+      .map((entry, i) => ({
+        version_id: entry.id,
+        iteration: entry.iteration,
+        rating: Math.round(1000 + 400 * Math.log10(strengths[i] ?? 1)),
+        wins: records[i]?.wins ?? 0,
+        losses: records[i]?.losses ?? 0,
+        ties: records[i]?.ties ?? 0,
+      }))
+      .sort((x, y) => y.rating - x.rating);
+
+    console.log(
+      '[TOURNAMENT] Standings:',
+      standings.map((s) => `iteration ${s.iteration}: ${s.rating}`).join(', ')
+    );
+    if (failures > 0) {
+      console.warn(`[TOURNAMENT] ${failures}/${pairings.length} comparisons failed`);
+    }
+
+    return { standings, matches, failures };
+  }
+}
+
+/**
+ * Global tournament instance
+ */
+export const tournament = new Tournament();
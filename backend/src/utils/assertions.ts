@@ -0,0 +1,153 @@
+/**
+ * Per-example output assertions
+ * Hard requirements checked deterministically against an output (phrases that must or
+ * must not appear, format, length), complementing the LLM judges
+ */
+
+import { z } from 'zod';
+import { findJson } from '../core/structured.js';
+import { validateJsonSchema } from './json-schema.js';
+
+const TextAssertionOptions = {
+  value: z.string().min(1),
+  case_sensitive: z.boolean().default(false),
+};
+
+/**
+ * Assertion schema (stored in examples.metadata_json under "assertions")
+ */
+export const AssertionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('contains'), ...TextAssertionOptions }),
+  z.object({ type: z.literal('not_contains'), ...TextAssertionOptions }),
+  z.object({ type: z.literal('starts_with'), ...TextAssertionOptions }),
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[gimsuy]*$/).default(''),
+  }),
+  z.object({ type: z.literal('json_parses') }),
+  z.object({ type: z.literal('json_schema'), schema: z.record(z.unknown()) }),
+  z.object({
+    type: z.literal('max_length'),
+    value: z.number().int().positive(),
+    unit: z.enum(['characters', 'words']).default('characters'),
+  }),
+]).refine(
+  (assertion) => {
+    if (assertion.type !== 'regex') return true;
+    try {
+      new RegExp(assertion.pattern, assertion.flags);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: 'Invalid regular expression', path: ['pattern'] }
+);
+
+export type Assertion = z.infer<typeof AssertionSchema>;
+
+export interface AssertionResult {
+  type: Assertion['type'];
+  passed: boolean;
+  /** What was checked and, for failures, why it failed */
+  message: string;
+}
+
+/**
+ * Pass rate of an example's assertions (or, for a dataset, averaged over examples)
+ */
+export interface AssertionScore {
+  /** Share of assertions passed (0-100) */
+  pass_rate: number;
+  passed: number;
+  total: number;
+}
+
+function fold(text: string, caseSensitive: boolean): string {
+  return caseSensitive ? text : text.toLowerCase();
+}
+
+/**
+ * Check one assertion against an output
+ */
+export function checkAssertion(output: string, assertion: Assertion): AssertionResult {
+  const result = (passed: boolean, message: string): AssertionResult => ({
+    type: assertion.type,
+    passed,
+    message,
+  });
+
+  switch (assertion.type) {
+    case 'contains': {
+      const passed = fold(output, assertion.case_sensitive).includes(
+        fold(assertion.value, assertion.case_sensitive)
+      );
+      return result(passed, `${passed ? 'Contains' : 'Does not contain'} "${assertion.value}"`);
+    }
+    case 'not_contains': {
+      const passed = !fold(output, assertion.case_sensitive).includes(
+        fold(assertion.value, assertion.case_sensitive)
+      );
+      return result(passed, `${passed ? 'Does not contain' : 'Contains'} "${assertion.value}"`);
+    }
+    case 'starts_with': {
+      const passed = fold(output.trimStart(), assertion.case_sensitive).startsWith(
+        fold(assertion.value, assertion.case_sensitive)
+      );
+      return result(passed, `${passed ? 'Starts' : 'Does not start'} with "${assertion.value}"`);
+    }
+    case 'regex': {
+      const passed = new RegExp(assertion.pattern, assertion.flags).test(output);
+      const pattern = `/${assertion.pattern}/${assertion.flags}`;
+      return result(passed, `${passed ? 'Matches' : 'Does not match'} ${pattern}`);
+    }
+    case 'json_parses': {
+      const passed = findJson(output) !== undefined;
+      return result(passed, passed ? 'Contains valid JSON' : 'No valid JSON found');
+    }
+    case 'json_schema': {
+      const value = findJson(output);
+      if (value === undefined) {
+        return result(false, 'No valid JSON found');
+      }
+      try {
+        const errors = validateJsonSchema(value, assertion.schema);
+        return errors.length === 0
+          ? result(true, 'JSON matches the schema')
+          : result(false, `JSON does not match the schema: ${errors.slice(0, 3).join('; ')}`);
+      } catch (error) {
+        // e.g. an invalid "pattern" in the schema
+        const reason = error instanceof Error ? error.message : String(error);
+        return result(false, `Schema could not be applied: ${reason}`);
+      }
+    }
+    case 'max_length': {
+      const length =
+        assertion.unit === 'words'
+          ? output.trim().split(/\s+/).filter(Boolean).length
+          : output.length;
+      const passed = length <= assertion.value;
+      return result(passed, `${length} ${assertion.unit} (max ${assertion.value})`);
+    }
+  }
+}
+
+/**
+ * Check all assertions of an example against its output
+ */
+export function checkAssertions(
+  output: string,
+  assertions: Assertion[]
+): { score: AssertionScore; results: AssertionResult[] } {
+  const results = assertions.map((assertion) => checkAssertion(output, assertion));
+  const passed = results.filter((r) => r.passed).length;
+  return {
+    score: {
+      pass_rate: Math.round((passed / Math.max(1, results.length)) * 1000) / 10,
+      passed,
+      total: results.length,
+    },
+    results,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * CSV parsing (RFC 4180)
+ * Quoted fields may contain delimiters, doubled quotes and line breaks; CRLF and LF line
+ * endings are both accepted
+ */
+
+export interface CsvRecord {
+  /** Line the record starts on (1-based) */
+  line: number;
+  cells: string[];
+}
+
+/**
+ * Raised for malformed CSV (an unterminated quoted field, text after a closing quote)
+ */
+export class CsvParseError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly line: number
+  ) {
+    super(`Line ${line}: ${reason}`);
+    this.name = 'CsvParseError';
+  }
+}
+
+/**
+ * Parse CSV text into records; blank lines are skipped
+ */
+export function parseCsv(text: string, delimiter: string = ','): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  // A leading byte order mark (Excel exports) is not part of the first header
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  let cells: string[] = [];
+  let cell = '';
+  // The current cell was quoted (so an empty line with "" is still a record)
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let i = 0;
+
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cell !== '' || quoted) {
+      records.push({ line: recordLine, cells });
+    }
+    cells = [];
+    cell = '';
+    quoted = false;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '"' && cell === '' && !quoted) {
+      // Quoted field: runs to the next quote not followed by another quote
+      const start = line;
+      quoted = true;
+      i++;
+      for (;;) {
+        const next = input[i];
+        if (next === undefined) {
+          throw new CsvParseError('Unterminated quoted field', start);
+        }
+        if (next === '"') {
+          if (input[i + 1] === '"') {
+            cell += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        if (next === '\n') line++;
+        cell += next;
+        i++;
+      }
+      const after = input[i];
+      if (after !== undefined && after !== delimiter && after !== '\n' && after !== '\r') {
+        throw new CsvParseError('Unexpected text after a quoted field', line);
+      }
+      continue;
+    }
+
+    if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+      quoted = false;
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      endRecord();
+      i += char === '\r' && input[i + 1] === '\n' ? 2 : 1;
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+      i++;
+    }
+  }
+
+  if (cell !== '' || quoted || cells.length > 0) {
+    endRecord();
+  }
+
+  return records;
+}
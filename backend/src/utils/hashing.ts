@@ -0,0 +1,36 @@
+/**
+ * Deterministic hashing utilities for request fingerprints
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * JSON.stringify with sorted object keys, so equal objects serialize identically
+ */
+export function stableStringify(value: unknown): string {
+  if (value === undefined) {
+    return 'null';
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`);
+
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * SHA-256 fingerprint of a request payload
+ */
+export function hashRequest(payload: unknown): string {
+  return createHash('sha256').update(stableStringify(payload)).digest('hex');
+}
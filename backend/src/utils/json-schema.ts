@@ -0,0 +1,137 @@
+/**
+ * Minimal JSON Schema validation
+ * Supports the keywords datasets need for output checks: type, enum, const, properties,
+ * required, additionalProperties, items, minItems, maxItems, minLength, maxLength, pattern,
+ * minimum, maximum, anyOf, oneOf and allOf. Unknown keywords are ignored.
+ */
+
+import { jsonEqual } from './reference-metrics.js';
+
+export type JsonSchema = Record<string, unknown>;
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function subschemas(value: unknown): JsonSchema[] {
+  return Array.isArray(value) ? value.filter(isSchema) : [];
+}
+
+/**
+ * Validate a value against a schema
+ * Returns the validation errors (empty = valid), each prefixed with the JSON path
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = '$'
+): string[] {
+  const errors: string[] = [];
+  const fail = (message: string) => errors.push(`${path}: ${message}`);
+
+  const types = Array.isArray(schema['type'])
+    ? schema['type'].filter((type): type is string => typeof type === 'string')
+    : typeof schema['type'] === 'string'
+      ? [schema['type']]
+      : [];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+    return errors;
+  }
+
+  const equals = (expected: unknown) => jsonEqual(expected, value);
+  if (Array.isArray(schema['enum']) && !schema['enum'].some(equals)) {
+    fail(`must be one of ${JSON.stringify(schema['enum'])}`);
+  }
+  if ('const' in schema && !equals(schema['const'])) {
+    fail(`must equal ${JSON.stringify(schema['const'])}`);
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema['minLength'] === 'number' && value.length < schema['minLength']) {
+      fail(`shorter than ${schema['minLength']} characters`);
+    }
+    if (typeof schema['maxLength'] === 'number' && value.length > schema['maxLength']) {
+      fail(`longer than ${schema['maxLength']} characters`);
+    }
+    if (typeof schema['pattern'] === 'string' && !new RegExp(schema['pattern'], 'u').test(value)) {
+      fail(`does not match pattern ${schema['pattern']}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema['minimum'] === 'number' && value < schema['minimum']) {
+      fail(`less than ${schema['minimum']}`);
+    }
+    if (typeof schema['maximum'] === 'number' && value > schema['maximum']) {
+      fail(`greater than ${schema['maximum']}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema['minItems'] === 'number' && value.length < schema['minItems']) {
+      fail(`fewer than ${schema['minItems']} items`);
+    }
+    if (typeof schema['maxItems'] === 'number' && value.length > schema['maxItems']) {
+      fail(`more than ${schema['maxItems']} items`);
+    }
+    const items = schema['items'];
+    if (isSchema(items)) {
+      value.forEach((item, index) =>
+        errors.push(...validateJsonSchema(item, items, `${path}[${index}]`))
+      );
+    }
+  }
+
+  if (isSchema(value)) {
+    const properties = isSchema(schema['properties']) ? schema['properties'] : {};
+    if (Array.isArray(schema['required'])) {
+      for (const key of schema['required']) {
+        if (typeof key === 'string' && !(key in value)) {
+          fail(`missing required property "${key}"`);
+        }
+      }
+    }
+    const additional = schema['additionalProperties'];
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (isSchema(propertySchema)) {
+        errors.push(...validateJsonSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (additional === false) {
+        fail(`unexpected property "${key}"`);
+      } else if (isSchema(additional)) {
+        errors.push(...validateJsonSchema(propertyValue, additional, `${path}.${key}`));
+      }
+    }
+  }
+
+  for (const subschema of subschemas(schema['allOf'])) {
+    errors.push(...validateJsonSchema(value, subschema, path));
+  }
+  const valid = (subschema: JsonSchema) => validateJsonSchema(value, subschema, path).length === 0;
+  const anyOf = subschemas(schema['anyOf']);
+  if (anyOf.length > 0 && !anyOf.some(valid)) {
+    fail('does not match any schema in anyOf');
+  }
+  const oneOf = subschemas(schema['oneOf']);
+  if (oneOf.length > 0) {
+    const matches = oneOf.filter(valid).length;
+    if (matches !== 1) {
+      fail(`matches ${matches} schemas in oneOf (expected exactly 1)`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,108 @@
+/**
+ * Chat message construction for prompt execution
+ *
+ * The optimized prompt can be executed the way it runs in production: as a plain
+ * prompt, a system prompt, a user message template, or a system prompt followed by
+ * a multi-turn message template.
+ */
+
+import type { ChatMessage } from '../core/providers/index.js';
+
+/**
+ * How the optimized prompt is used at execution time
+ * - plain: single user message "<prompt>\n\nInput: <input>"
+ * - system: prompt as system message, input as user message
+ * - user_template: prompt is a user message with an {input} placeholder
+ * - messages: prompt as system message, followed by a message template
+ */
+export type PromptFormat = 'plain' | 'system' | 'user_template' | 'messages';
+
+/**
+ * Placeholder replaced with the example input
+ */
+export const INPUT_PLACEHOLDER = '{input}';
+
+/**
+ * Prompt format plus the message template used by the "messages" format
+ */
+export interface PromptLayout {
+  format: PromptFormat;
+  messages?: ChatMessage[];
+}
+
+export const PLAIN_LAYOUT: PromptLayout = { format: 'plain' };
+
+/**
+ * Substitute the input into a template, appending it when the placeholder is missing
+ * (e.g. after a rewrite dropped it)
+ */
+function fillTemplate(template: string, input: string): string {
+  return template.includes(INPUT_PLACEHOLDER)
+    ? template.split(INPUT_PLACEHOLDER).join(input)
+    : `${template}\n\n${input}`;
+}
+
+/**
+ * Build the messages for running a prompt on one input
+ */
+export function buildExecutionMessages(
+  prompt: string,
+  input: string,
+  layout: PromptLayout = PLAIN_LAYOUT
+): ChatMessage[] {
+  switch (layout.format) {
+    case 'system':
+      return [
+        { role: 'system', content: prompt },
+        { role: 'user', content: input },
+      ];
+
+    case 'user_template':
+      return [{ role: 'user', content: fillTemplate(prompt, input) }];
+
+    case 'messages': {
+      const template = layout.messages || [];
+      const hasPlaceholder = template.some((m) => m.content.includes(INPUT_PLACEHOLDER));
+      const turns = template.map((m) => ({
+        role: m.role,
+        content: m.content.split(INPUT_PLACEHOLDER).join(input),
+      }));
+
+      return [
+        { role: 'system', content: prompt },
+        ...turns,
+        ...(hasPlaceholder ? [] : [{ role: 'user' as const, content: input }]),
+      ];
+    }
+
+    case 'plain':
+    default:
+      return [{ role: 'user', content: `${prompt}\n\nInput: ${input}` }];
+  }
+}
+
+/**
+ * Merge system messages into the first user message
+ * For providers/models that reject the system role
+ */
+export function foldSystemMessages(messages: ChatMessage[]): ChatMessage[] {
+  const system = messages
+    .filter((m) => m.role === 'system')
+    .map((m) => m.content)
+    .join('\n\n');
+
+  if (!system) {
+    return messages;
+  }
+
+  const rest = messages.filter((m) => m.role !== 'system');
+  const firstUser = rest.findIndex((m) => m.role === 'user');
+
+  if (firstUser === -1) {
+    return [{ role: 'user', content: system }, ...rest];
+  }
+
+  return rest.map((m, i) =>
+    i === firstUser ? { role: 'user', content: `${system}\n\n${m.content}` } : m
+  );
+}
@@ -0,0 +1,210 @@
+/**
+ * Deterministic reference-based metrics
+ * Compare an output with the example's expected output; all scores are 0-100
+ */
+
+import { findJson } from '../core/structured.js';
+
+export type ReferenceMetric = 'exact_match' | 'token_f1' | 'rouge_l' | 'bleu' | 'json_match';
+
+export const REFERENCE_METRICS: ReferenceMetric[] = [
+  'exact_match',
+  'token_f1',
+  'rouge_l',
+  'bleu',
+  'json_match',
+];
+
+/**
+ * Highest n-gram order used by BLEU
+ */
+const BLEU_MAX_ORDER = 4;
+
+/**
+ * Lowercase, drop punctuation and articles, collapse whitespace (SQuAD-style)
+ */
+export function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\b(a|an|the)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalizeText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 10;
+}
+
+/**
+ * Count of each token (or n-gram key)
+ */
+function counts(items: string[]): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const item of items) {
+    result.set(item, (result.get(item) ?? 0) + 1);
+  }
+  return result;
+}
+
+function overlap(a: Map<string, number>, b: Map<string, number>): number {
+  let shared = 0;
+  for (const [item, count] of a) {
+    shared += Math.min(count, b.get(item) ?? 0);
+  }
+  return shared;
+}
+
+/**
+ * 100 when the normalized texts are identical, else 0
+ */
+export function exactMatch(output: string, reference: string): number {
+  return normalizeText(output) === normalizeText(reference) ? 100 : 0;
+}
+
+/**
+ * Token-level F1 between normalized texts
+ */
+export function tokenF1(output: string, reference: string): number {
+  const outputTokens = tokenize(output);
+  const referenceTokens = tokenize(reference);
+  if (outputTokens.length === 0 || referenceTokens.length === 0) {
+    return outputTokens.length === referenceTokens.length ? 100 : 0;
+  }
+
+  const shared = overlap(counts(outputTokens), counts(referenceTokens));
+  if (shared === 0) {
+    return 0;
+  }
+  const precision = shared / outputTokens.length;
+  const recall = shared / referenceTokens.length;
+  return round((2 * precision * recall) / (precision + recall));
+}
+
+/**
+ * ROUGE-L F1 (longest common token subsequence)
+ */
+export function rougeL(output: string, reference: string): number {
+  const a = tokenize(output);
+  const b = tokenize(reference);
+  if (a.length === 0 || b.length === 0) {
+    return a.length === b.length ? 100 : 0;
+  }
+
+  // LCS length, one DP row at a time
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const token of a) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] =
+        token === b[j - 1]
+          ? (previous[j - 1] ?? 0) + 1
+          : Math.max(previous[j] ?? 0, current[j - 1] ?? 0);
+    }
+    previous = current;
+  }
+
+  const lcs = previous[b.length] ?? 0;
+  if (lcs === 0) {
+    return 0;
+  }
+  const precision = lcs / a.length;
+  const recall = lcs / b.length;
+  return round((2 * precision * recall) / (precision + recall));
+}
+
+function ngrams(tokens: string[], n: number): string[] {
+  const result: string[] = [];
+  for (let i = 0; i + n <= tokens.length; i++) {
+    result.push(tokens.slice(i, i + n).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Sentence BLEU (up to 4-grams, brevity penalty)
+ * Higher orders are add-one smoothed so one missing 4-gram does not zero a short answer
+ */
+export function bleu(output: string, reference: string): number {
+  const candidate = tokenize(output);
+  const referenceTokens = tokenize(reference);
+  if (candidate.length === 0 || referenceTokens.length === 0) {
+    return candidate.length === referenceTokens.length ? 100 : 0;
+  }
+
+  let logPrecision = 0;
+  for (let n = 1; n <= BLEU_MAX_ORDER; n++) {
+    const candidateNgrams = ngrams(candidate, n);
+    const matches = overlap(counts(candidateNgrams), counts(ngrams(referenceTokens, n)));
+    const precision =
+      n === 1
+        ? matches / candidateNgrams.length
+        : (matches + 1) / (candidateNgrams.length + 1);
+    if (precision === 0) {
+      return 0;
+    }
+    logPrecision += Math.log(precision) / BLEU_MAX_ORDER;
+  }
+
+  const brevityPenalty =
+    candidate.length >= referenceTokens.length
+      ? 1
+      : Math.exp(1 - referenceTokens.length / candidate.length);
+  return round(brevityPenalty * Math.exp(logPrecision));
+}
+
+/**
+ * Deep equality of JSON values, ignoring object key order
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => jsonEqual(item, b[i]))
+    );
+  }
+  if (a !== null && b !== null && typeof a === 'object' && typeof b === 'object') {
+    const aRecord = a as Record<string, unknown>;
+    const bRecord = b as Record<string, unknown>;
+    const keys = Object.keys(aRecord);
+    return (
+      keys.length === Object.keys(bRecord).length &&
+      keys.every((key) => key in bRecord && jsonEqual(aRecord[key], bRecord[key]))
+    );
+  }
+  return a === b;
+}
+
+/**
+ * 100 when the output's JSON equals the reference's (formatting and key order ignored),
+ * else 0; null when the reference is not a JSON object or array (a bare "42" is prose as
+ * often as it is JSON)
+ */
+export function jsonMatch(output: string, reference: string): number | null {
+  const expected = findJson(reference);
+  if (expected === null || typeof expected !== 'object') {
+    return null;
+  }
+  return jsonEqual(findJson(output), expected) ? 100 : 0;
+}
+
+/**
+ * Scorer per reference metric
+ */
+export const REFERENCE_SCORERS: Record<
+  ReferenceMetric,
+  (output: string, reference: string) => number | null
+> = {
+  exact_match: exactMatch,
+  token_f1: tokenF1,
+  rouge_l: rougeL,
+  bleu,
+  json_match: jsonMatch,
+};
@@ -0,0 +1,331 @@
+/**
+ * Statistics helpers for comparing evaluation results
+ */
+
+import { shuffle } from './random.js';
+
+/**
+ * Bootstrap resamples per estimate
+ */
+const BOOTSTRAP_SAMPLES = 2000;
+
+/**
+ * Significance level for version deltas
+ */
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+/**
+ * Above this many non-zero differences the Wilcoxon test uses the normal approximation
+ */
+const EXACT_WILCOXON_MAX = 50;
+
+/**
+ * Mean with a confidence interval
+ */
+export interface ConfidenceInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Comparison of one metric between two versions
+ * Paired when enough examples were scored on both versions (Wilcoxon signed-rank test,
+ * bootstrap interval of the mean difference); otherwise unpaired (bootstrap interval,
+ * permutation test)
+ */
+export interface MetricComparison {
+  test: 'wilcoxon' | 'permutation';
+  /** Examples compared (pairs for the paired test, total for the unpaired one) */
+  n: number;
+  delta: ConfidenceInterval;
+  p_value: number;
+  significant: boolean;
+  version1: ConfidenceInterval | null;
+  version2: ConfidenceInterval | null;
+}
+
+/**
+ * A metric value of one evaluated example
+ */
+export interface ExampleScore {
+  input: string;
+  value: number;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function round(value: number, digits: number = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Linear-interpolated percentile of sorted values (p in 0-1)
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const below = sorted[Math.floor(position)] ?? 0;
+  const above = sorted[Math.ceil(position)] ?? below;
+  return below + (above - below) * (position - Math.floor(position));
+}
+
+function resample(values: number[], random: () => number): number[] {
+  return values.map(() => values[Math.floor(random() * values.length)] ?? 0);
+}
+
+/**
+ * Percentile interval of bootstrap estimates around a point estimate
+ */
+function interval(estimate: number, estimates: number[], confidence: number): ConfidenceInterval {
+  const sorted = [...estimates].sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return {
+    mean: round(estimate),
+    lower: round(percentile(sorted, tail)),
+    upper: round(percentile(sorted, 1 - tail)),
+  };
+}
+
+/**
+ * Bootstrap confidence interval of a mean (null for no values)
+ */
+export function bootstrapMean(
+  values: number[],
+  random: () => number = Math.random,
+  confidence: number = 1 - SIGNIFICANCE_LEVEL
+): ConfidenceInterval | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const estimates = Array.from({ length: BOOTSTRAP_SAMPLES }, () => mean(resample(values, random)));
+  return interval(mean(values), estimates, confidence);
+}
+
+/**
+ * Bootstrap interval and permutation-test p-value for the difference of two independent
+ * means (b - a)
+ * The p-value comes from shuffling group labels rather than from the bootstrap, which is
+ * overconfident on a handful of examples
+ */
+export function bootstrapDifference(
+  a: number[],
+  b: number[],
+  random: () => number = Math.random,
+  confidence: number = 1 - SIGNIFICANCE_LEVEL
+): { interval: ConfidenceInterval; pValue: number } {
+  const estimates = Array.from(
+    { length: BOOTSTRAP_SAMPLES },
+    () => mean(resample(b, random)) - mean(resample(a, random))
+  );
+  const observed = Math.abs(mean(b) - mean(a));
+  const pooled = [...a, ...b];
+  let extreme = 0;
+  for (let i = 0; i < BOOTSTRAP_SAMPLES; i++) {
+    const shuffled = shuffle(pooled, random);
+    const difference = mean(shuffled.slice(a.length)) - mean(shuffled.slice(0, a.length));
+    if (Math.abs(difference) >= observed - 1e-9) extreme++;
+  }
+
+  return {
+    interval: interval(mean(b) - mean(a), estimates, confidence),
+    pValue: (extreme + 1) / (BOOTSTRAP_SAMPLES + 1),
+  };
+}
+
+/**
+ * Standard normal CDF (Abramowitz-Stegun 7.1.26 approximation of erf)
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Wilcoxon signed-rank test (two-sided) on paired differences
+ * Zero differences are dropped and tied magnitudes get average ranks. Small samples use
+ * the exact null distribution, so e.g. five pairs can never reach p < 0.05.
+ */
+export function wilcoxonSignedRank(differences: number[]): { statistic: number; pValue: number; n: number } {
+  const nonZero = differences.filter((d) => d !== 0);
+  const n = nonZero.length;
+  if (n === 0) {
+    return { statistic: 0, pValue: 1, n };
+  }
+
+  // Average ranks of the absolute differences
+  const order = nonZero
+    .map((d, index) => ({ magnitude: Math.abs(d), index }))
+    .sort((x, y) => x.magnitude - y.magnitude);
+  const ranks = new Array<number>(n).fill(0);
+  const tieSizes: number[] = [];
+  for (let start = 0; start < n; ) {
+    let end = start;
+    while (end + 1 < n && order[end + 1]?.magnitude === order[start]?.magnitude) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) {
+      ranks[order[k]?.index ?? 0] = rank;
+    }
+    tieSizes.push(end - start + 1);
+    start = end + 1;
+  }
+
+  const positive = nonZero.reduce((sum, d, i) => (d > 0 ? sum + (ranks[i] ?? 0) : sum), 0);
+  const total = (n * (n + 1)) / 2;
+  const statistic = Math.min(positive, total - positive);
+
+  if (n > EXACT_WILCOXON_MAX) {
+    const mu = total / 2;
+    const tieCorrection = tieSizes.reduce((sum, t) => sum + (t ** 3 - t), 0) / 48;
+    const sigma = Math.sqrt((n * (n + 1) * (2 * n + 1)) / 24 - tieCorrection);
+    const z = (Math.abs(positive - mu) - 0.5) / sigma;
+    return { statistic, pValue: Math.min(1, 2 * (1 - normalCdf(z))), n };
+  }
+
+  // Exact distribution of the positive rank sum under the null (every sign equally
+  // likely); ranks are doubled so average ranks stay integers
+  const doubled = ranks.map((rank) => Math.round(rank * 2));
+  const maxSum = doubled.reduce((a, b) => a + b, 0);
+  let counts = new Array<number>(maxSum + 1).fill(0);
+  counts[0] = 1;
+  for (const rank of doubled) {
+    const next = [...counts];
+    for (let sum = 0; sum + rank <= maxSum; sum++) {
+      next[sum + rank] = (next[sum + rank] ?? 0) + (counts[sum] ?? 0);
+    }
+    counts = next;
+  }
+
+  const threshold = Math.round(statistic * 2);
+  const tail = counts.slice(0, threshold + 1).reduce((a, b) => a + b, 0) / 2 ** n;
+  return { statistic, pValue: Math.min(1, 2 * tail), n };
+}
+
+/**
+ * Compare a metric between two versions from its per-example scores
+ * Returns null when either version has no scores for it
+ */
+export function compareMetric(
+  scores1: ExampleScore[],
+  scores2: ExampleScore[],
+  random: () => number = Math.random
+): MetricComparison | null {
+  if (scores1.length === 0 || scores2.length === 0) {
+    return null;
+  }
+
+  const version1 = bootstrapMean(scores1.map((s) => s.value), random);
+  const version2 = bootstrapMean(scores2.map((s) => s.value), random);
+
+  // Pair examples evaluated on both versions
+  const byInput = new Map(scores1.map((s) => [s.input, s.value]));
+  const differences = scores2
+    .filter((s) => byInput.has(s.input))
+    .map((s) => s.value - (byInput.get(s.input) ?? 0));
+
+  if (differences.length >= 2) {
+    const { pValue } = wilcoxonSignedRank(differences);
+    const delta = bootstrapMean(differences, random) ?? { mean: 0, lower: 0, upper: 0 };
+    return {
+      test: 'wilcoxon',
+      n: differences.length,
+      delta,
+      p_value: round(pValue, 4),
+      significant: pValue < SIGNIFICANCE_LEVEL,
+      version1,
+      version2,
+    };
+  }
+
+  const { interval: delta, pValue } = bootstrapDifference(
+    scores1.map((s) => s.value),
+    scores2.map((s) => s.value),
+    random
+  );
+  return {
+    test: 'permutation',
+    n: scores1.length + scores2.length,
+    delta,
+    p_value: round(pValue, 4),
+    significant: pValue < SIGNIFICANCE_LEVEL,
+    version1,
+    version2,
+  };
+}
+
+/**
+ * Population standard deviation (0 for fewer than two values)
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - average) ** 2)));
+}
+
+/**
+ * Krippendorff's alpha for interval data
+ * Each unit holds the values its raters gave; units with fewer than two values are not
+ * pairable and ignored. Null when there is nothing to compare or no variation at all.
+ */
+export function krippendorffAlpha(units: number[][]): number | null {
+  const pairable = units.filter((values) => values.length >= 2);
+  const all = pairable.flat();
+  const n = all.length;
+  if (n < 2) {
+    return null;
+  }
+
+  // Observed disagreement: squared differences within units
+  let observed = 0;
+  for (const values of pairable) {
+    let withinUnit = 0;
+    for (const a of values) {
+      for (const b of values) {
+        withinUnit += (a - b) ** 2;
+      }
+    }
+    observed += withinUnit / (values.length - 1);
+  }
+  observed /= n;
+
+  // Expected disagreement: squared differences between all pairable values
+  let expected = 0;
+  for (const a of all) {
+    for (const b of all) {
+      expected += (a - b) ** 2;
+    }
+  }
+  expected /= n * (n - 1);
+
+  if (expected === 0) {
+    return null;
+  }
+  return round(1 - observed / expected, 3);
+}
+
+/**
+ * Unbiased pass@k estimate from n samples of which c passed: the probability that at
+ * least one of k samples drawn without replacement passes (1 - C(n-c, k) / C(n, k),
+ * computed as a product to avoid huge binomials)
+ */
+export function passAtK(n: number, c: number, k: number): number {
+  if (n - c < k) {
+    return 1;
+  }
+  let allFail = 1;
+  for (let i = n - c + 1; i <= n; i++) {
+    allFail *= 1 - k / i;
+  }
+  return 1 - allFail;
+}
@@ -3,62 +3,118 @@
  */
 
 import { FastifyReply } from 'fastify';
+import type { StreamHandlers } from '../core/llm-client.js';
+import type { PipelineStage } from '../core/stages.js';
+import type { UsageReport } from '../core/usage.js';
+import type { ExampleEvaluation, JudgeFailures, Metrics } from '../services/evaluator.js';
+import type { TournamentStanding } from '../services/tournament.js';
 
 /**
  * SSE Event types (discriminated union)
  */
 export type SSEEvent =
   | { type: 'optimization_start'; data: { total_iterations: number } }
-  | { type: 'dataset_generated'; data: { example_count: number; domain: string } }
+  | { type: 'prompt_created'; data: { prompt_id: string } }
+  | {
+      type: 'dataset_generated';
+      data: { dataset_id: string; example_count: number; domain: string };
+    }
   | { type: 'iteration_start'; data: { iteration: number; prompt: string } }
   | { type: 'executing_tests'; data: { count: number; iteration: number } }
   | { type: 'test_progress'; data: { current: number; total: number; iteration: number } }
   | { type: 'applying_technique'; data: { technique: string; iteration: number } }
   | { type: 'evaluating_metrics'; data: { iteration: number } }
-  | { type: 'metrics_calculated'; data: { metrics: any; iteration: number } }
+  | {
+      type: 'metrics_calculated';
+      data: { metrics: Metrics; judge_failures: JudgeFailures; iteration: number };
+    }
   | { type: 'applying_rsip'; data: { iteration: number } }
   | { type: 'prompt_improved'; data: { iteration: number; critique: string; improved_prompt: string } }
+  | { type: 'token_delta'; data: TokenDeltaData }
   | {
       type: 'iteration_complete';
       data: {
         iteration: number;
+        version_id: string;
         prompt_version: string;
-        metrics: {
-          relevance: number;
-          accuracy: number;
-          consistency: number;
-          efficiency: number;
-          readability: number;
-          aggregate_score: number;
-        };
-        evaluation_details: any;
+        metrics: Metrics;
+        judge_failures: JudgeFailures;
+        evaluation_details: ExampleEvaluation[];
         techniques: string[];
         duration_seconds: number;
+        usage: UsageReport;
       };
     }
+  | { type: 'running_tournament'; data: { version_count: number } }
+  | {
+      type: 'tournament_complete';
+      data: { standings: TournamentStanding[]; failures: number };
+    }
   | {
       type: 'optimization_complete';
       data: {
         best_version: {
           iteration: number;
+          version_id: string;
           prompt: string;
-          metrics: any;
+          metrics: Metrics;
         };
         all_versions: Array<{
           iteration: number;
+          version_id: string;
           prompt: string;
-          metrics: any;
+          metrics: Metrics;
         }>;
         total_time_seconds: number;
+        usage: UsageReport;
+      };
+    }
+  | {
+      type: 'optimization_cancelled';
+      data: {
+        prompt_id: string | null;
+        completed_iterations: number;
+        usage: UsageReport;
+      };
+    }
+  | { type: 'evaluation_start'; data: { dataset_id: string; example_count: number } }
+  | {
+      type: 'evaluation_progress';
+      data: { stage: 'executing' | 'scoring'; current: number; total: number };
+    }
+  | {
+      type: 'evaluation_complete';
+      data: {
+        evaluation_id: string;
+        metrics: Metrics;
+        judge_failures: JudgeFailures;
+        evaluation_details: ExampleEvaluation[];
+        duration_seconds: number;
+        usage: UsageReport;
       };
     }
+  | { type: 'evaluation_cancelled'; data: { usage: UsageReport } }
   | { type: 'error'; data: { message: string; details?: any } };
 
+/**
+ * Live model output fragment, tagged with where in the pipeline it came from
+ */
+export interface TokenDeltaData {
+  stage: PipelineStage;
+  /** Sub-step within a stage (e.g. RSIP "critique" vs "improvement") */
+  step?: string;
+  iteration?: number;
+  example_index?: number;
+  delta: string;
+  /** True when a retry restarted the stream and previous text should be discarded */
+  reset?: boolean;
+}
+
 /**
  * Event queue for SSE streaming
+ * Events go straight to the current listeners and are not kept (a run streams every token)
  */
 export class EventQueue {
-  private events: SSEEvent[] = [];
   private listeners: Array<(event: SSEEvent) => void> = [];
   private closed = false;
 
@@ -70,8 +126,6 @@ export class EventQueue {
       return;
     }
 
-    this.events.push(event);
-
     // Notify all listeners
     this.listeners.forEach((listener) => listener(event));
   }
@@ -97,7 +151,6 @@ export class EventQueue {
   close(): void {
     this.closed = true;
     this.listeners = [];
-    this.events = [];
   }
 
   /**
@@ -108,6 +161,19 @@ export class EventQueue {
   }
 }
 
+/**
+ * Stream handlers that forward model output to the queue as token_delta events
+ */
+export function createTokenStream(
+  queue: EventQueue,
+  tag: Omit<TokenDeltaData, 'delta' | 'reset'>
+): StreamHandlers {
+  return {
+    onToken: (delta) => queue.push({ type: 'token_delta', data: { ...tag, delta } }),
+    onRetry: () => queue.push({ type: 'token_delta', data: { ...tag, delta: '', reset: true } }),
+  };
+}
+
 /**
  * Format SSE event
  */
@@ -130,13 +196,11 @@ function formatSSEEvent(event: SSEEvent): string {
  * Create SSE stream from event queue
  */
 export async function* createSSEStream(
-  queue: EventQueue
+  queue: EventQueue,
+  initialEvent: SSEEvent = { type: 'optimization_start', data: { total_iterations: 5 } }
 ): AsyncGenerator<string, void, unknown> {
   // Send initial connection message
-  yield formatSSEEvent({
-    type: 'optimization_start',
-    data: { total_iterations: 5 },
-  });
+  yield formatSSEEvent(initialEvent);
 
   // Create promise that resolves when an event is available
   let resolveNext: ((event: SSEEvent) => void) | null = null;
@@ -165,8 +229,14 @@ export async function* createSSEStream(
       // Format and yield event
       yield formatSSEEvent(event);
 
-      // Stop streaming if optimization complete or error
-      if (event.type === 'optimization_complete' || event.type === 'error') {
+      // Stop streaming if optimization or evaluation complete, cancelled or error
+      if (
+        event.type === 'optimization_complete' ||
+        event.type === 'optimization_cancelled' ||
+        event.type === 'evaluation_complete' ||
+        event.type === 'evaluation_cancelled' ||
+        event.type === 'error'
+      ) {
         break;
       }
     }
@@ -180,7 +250,8 @@ export async function* createSSEStream(
  */
 export function createSSEResponse(
   reply: FastifyReply,
-  queue: EventQueue
+  queue: EventQueue,
+  initialEvent?: SSEEvent
 ): FastifyReply {
   // Set SSE headers with CORS support
   reply.raw.writeHead(200, {
@@ -195,7 +266,7 @@ export function createSSEResponse(
   });
 
   // Create stream
-  const stream = createSSEStream(queue);
+  const stream = createSSEStream(queue, initialEvent);
 
   // Stream events
   (async () => {
@@ -0,0 +1,152 @@
+/**
+ * Output assertions and the JSON Schema subset behind json_schema
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  AssertionSchema,
+  checkAssertion,
+  checkAssertions,
+  type Assertion,
+} from '../src/utils/assertions.js';
+import { validateJsonSchema } from '../src/utils/json-schema.js';
+
+const assertion = (input: unknown): Assertion => AssertionSchema.parse(input);
+const passes = (output: string, input: unknown) => checkAssertion(output, assertion(input)).passed;
+
+describe('text assertions', () => {
+  it('contains and not_contains ignore case unless asked not to', () => {
+    expect(passes('The capital is Paris.', { type: 'contains', value: 'paris' })).toBe(true);
+    expect(
+      passes('The capital is Paris.', { type: 'contains', value: 'paris', case_sensitive: true })
+    ).toBe(false);
+    expect(passes('All done.', { type: 'not_contains', value: 'TODO' })).toBe(true);
+    expect(passes('todo: finish', { type: 'not_contains', value: 'TODO' })).toBe(false);
+  });
+
+  it('starts_with ignores leading whitespace', () => {
+    expect(passes('\n  Answer: 4', { type: 'starts_with', value: 'answer:' })).toBe(true);
+    expect(passes('The answer: 4', { type: 'starts_with', value: 'Answer:' })).toBe(false);
+  });
+
+  it('reports what failed', () => {
+    expect(checkAssertion('Nothing here', assertion({ type: 'contains', value: 'Paris' }))).toEqual(
+      { type: 'contains', passed: false, message: 'Does not contain "Paris"' }
+    );
+  });
+});
+
+describe('regex assertion', () => {
+  it('applies the pattern with its flags', () => {
+    expect(passes('Order #12345 shipped', { type: 'regex', pattern: '#\\d{5}\\b' })).toBe(true);
+    expect(passes('STATUS: OK', { type: 'regex', pattern: '^status: ok$' })).toBe(false);
+    expect(passes('STATUS: OK', { type: 'regex', pattern: '^status: ok$', flags: 'i' })).toBe(true);
+  });
+
+  it('rejects invalid patterns and flags when parsed', () => {
+    expect(AssertionSchema.safeParse({ type: 'regex', pattern: '(' }).success).toBe(false);
+    expect(AssertionSchema.safeParse({ type: 'regex', pattern: 'a', flags: 'x' }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('JSON assertions', () => {
+  const schema = {
+    type: 'object',
+    properties: { name: { type: 'string' }, age: { type: 'integer', minimum: 0 } },
+    required: ['name'],
+    additionalProperties: false,
+  };
+
+  it('json_parses finds JSON in fences or surrounding text', () => {
+    expect(passes('```json\n{"ok": true}\n```', { type: 'json_parses' })).toBe(true);
+    expect(passes('Result: [1, 2, 3] as requested', { type: 'json_parses' })).toBe(true);
+    expect(passes('no json at all', { type: 'json_parses' })).toBe(false);
+  });
+
+  it('json_schema validates the JSON found in the output', () => {
+    expect(passes('{"name": "Ada", "age": 36}', { type: 'json_schema', schema })).toBe(true);
+
+    const result = checkAssertion(
+      '{"age": -1, "extra": 1}',
+      assertion({ type: 'json_schema', schema })
+    );
+    expect(result.passed).toBe(false);
+    expect(result.message).toBe(
+      'JSON does not match the schema: $: missing required property "name"; $.age: less than 0; $: unexpected property "extra"'
+    );
+    expect(passes('not json', { type: 'json_schema', schema })).toBe(false);
+  });
+
+  it('json_schema fails instead of throwing on an unusable schema', () => {
+    const result = checkAssertion(
+      '{"name": "Ada"}',
+      assertion({ type: 'json_schema', schema: { properties: { name: { pattern: '(' } } } })
+    );
+    expect(result.passed).toBe(false);
+    expect(result.message).toMatch(/^Schema could not be applied/);
+  });
+});
+
+describe('max_length assertion', () => {
+  it('counts characters by default, or words', () => {
+    expect(passes('12345', { type: 'max_length', value: 5 })).toBe(true);
+    expect(passes('123456', { type: 'max_length', value: 5 })).toBe(false);
+    expect(passes('  one two\nthree  ', { type: 'max_length', value: 3, unit: 'words' })).toBe(
+      true
+    );
+    expect(passes('one two three four', { type: 'max_length', value: 3, unit: 'words' })).toBe(
+      false
+    );
+  });
+});
+
+describe('checkAssertions', () => {
+  it('scores the share of assertions passed', () => {
+    const { score, results } = checkAssertions('Paris', [
+      assertion({ type: 'contains', value: 'paris' }),
+      assertion({ type: 'max_length', value: 3 }),
+      assertion({ type: 'not_contains', value: 'london' }),
+    ]);
+    expect(score).toEqual({ pass_rate: 66.7, passed: 2, total: 3 });
+    expect(results.map((result) => result.passed)).toEqual([true, false, true]);
+  });
+
+  it('scores no assertions as 0 of 0', () => {
+    expect(checkAssertions('anything', []).score).toEqual({ pass_rate: 0, passed: 0, total: 0 });
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('compares enum and const values regardless of key order', () => {
+    expect(validateJsonSchema({ b: 2, a: 1 }, { const: { a: 1, b: 2 } })).toEqual([]);
+    expect(validateJsonSchema({ b: 2, a: 1 }, { enum: [{ a: 1, b: 2 }, 'none'] })).toEqual([]);
+    expect(validateJsonSchema({ a: 1 }, { const: { a: 1, b: 2 } })).toEqual([
+      '$: must equal {"a":1,"b":2}',
+    ]);
+  });
+
+  it('checks types, counting integers as numbers', () => {
+    expect(validateJsonSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJsonSchema(3.5, { type: 'integer' })).toEqual([
+      '$: expected integer, got number',
+    ]);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] })).toEqual([]);
+  });
+
+  it('reports item errors with their path', () => {
+    expect(
+      validateJsonSchema(['a', 1, 'bb'], { type: 'array', maxItems: 2, items: { type: 'string' } })
+    ).toEqual(['$: more than 2 items', '$[1]: expected string, got integer']);
+  });
+
+  it('applies anyOf and oneOf', () => {
+    const anyOf = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(validateJsonSchema(1, anyOf)).toEqual([]);
+    expect(validateJsonSchema(true, anyOf)).toEqual(['$: does not match any schema in anyOf']);
+    expect(validateJsonSchema(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([
+      '$: matches 2 schemas in oneOf (expected exactly 1)',
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Recording into an existing cassette from concurrent calls
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { Cassette } from '../src/core/cassette.js';
+
+const dir = await mkdtemp(join(tmpdir(), 'powerprompts-cassette-'));
+const path = join(dir, 'run.json');
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('cassette recording', () => {
+  it('keeps every recording when the first calls run in parallel', async () => {
+    await new Cassette('record', path).record('completion', { id: 'existing' }, 'first');
+
+    // A fresh instance reads the existing file; none of these may load it separately
+    const recorder = new Cassette('record', path);
+    await Promise.all(
+      [1, 2, 3, 4, 5].map((id) => recorder.record('completion', { id }, `response ${id}`))
+    );
+
+    const replay = new Cassette('replay', path);
+    expect(await replay.lookup('completion', { id: 'existing' })).toBe('first');
+    for (const id of [1, 2, 3, 4, 5]) {
+      expect(await replay.lookup('completion', { id })).toBe(`response ${id}`);
+    }
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Consistency scoring with a provider that has no embeddings endpoint
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+// OpenRouter (no embeddings) serves every model, including EMBEDDING_MODEL
+process.env['LLM_PROVIDER'] = 'openrouter';
+process.env['OPENROUTER_API_KEY'] = 'test-key';
+process.env['EMBEDDING_MODEL'] = 'text-embedding-ada-002';
+
+const { llmClient } = await import('../src/core/llm-client.js');
+const { evaluator, getConsistencyEmbedder } = await import('../src/services/evaluator.js');
+
+describe('consistency without provider embeddings', () => {
+  it('falls back to the local hashing embedder', () => {
+    expect(getConsistencyEmbedder().model).toBe('local:hashing');
+  });
+
+  it('scores consistency without calling the provider or counting a failure', async () => {
+    const embed = vi.spyOn(llmClient, 'embed');
+    const outputs = [
+      'Paris is the capital of France.',
+      'The capital of France is Paris.',
+      'Paris is the capital city of France.',
+    ];
+
+    const { metrics, evaluations, failures } = await evaluator.evaluateDataset(
+      'Answer the question.',
+      [
+        {
+          input: 'What is the capital of France?',
+          expectedOutput: 'Paris',
+          actualOutput: outputs[0] ?? '',
+          outputs,
+        },
+      ],
+      {},
+      [],
+      { metrics: evaluator.resolveMetrics([{ id: 'consistency' }]) }
+    );
+
+    expect(embed).not.toHaveBeenCalled();
+    expect(failures['consistency'] ?? 0).toBe(0);
+    expect(evaluations[0]?.metrics.scores['consistency']).toBeGreaterThan(0);
+    expect(metrics.scores['consistency']).toBeGreaterThan(0);
+  });
+});
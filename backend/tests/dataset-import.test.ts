@@ -0,0 +1,66 @@
+/**
+ * Scoring an imported dataset whose examples have no expected output
+ */
+
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+const databasePath = join(tmpdir(), `powerprompts-test-${process.pid}.db`);
+process.env['DATABASE_PATH'] = databasePath;
+process.env['OPENAI_API_KEY'] = 'test-key';
+
+const { llmClient } = await import('../src/core/llm-client.js');
+const { closeDatabase } = await import('../src/db/database.js');
+const { datasetImporter } = await import('../src/services/dataset-importer.js');
+const { loadDataset } = await import('../src/services/dataset-generator.js');
+const { evaluator } = await import('../src/services/evaluator.js');
+
+const REFERENCE_METRIC_IDS = ['accuracy', 'exact_match', 'token_f1', 'rouge_l', 'bleu', 'json_match'];
+
+afterAll(async () => {
+  await closeDatabase();
+  await rm(databasePath, { force: true });
+});
+
+describe('dataset without an expected_output column', () => {
+  it('keeps expected outputs null and leaves the reference metrics unscored', async () => {
+    const { id } = await datasetImporter.import({
+      content: 'input,difficulty\nWhat is the capital of France?,easy\nName a primary colour.,easy\n',
+      format: 'csv',
+    });
+
+    const dataset = await loadDataset(id);
+    expect(dataset?.examples).toHaveLength(2);
+    for (const example of dataset?.examples ?? []) {
+      expect(example.expected_output).toBeNull();
+    }
+
+    const judge = vi.spyOn(llmClient, 'completeStructured');
+    const { metrics, evaluations, failures } = await evaluator.evaluateDataset(
+      'Answer the question.',
+      (dataset?.examples ?? []).map((example) => ({
+        input: example.input,
+        expectedOutput: example.expected_output ?? null,
+        actualOutput: 'Paris',
+      })),
+      {},
+      [],
+      {
+        metrics: evaluator.resolveMetrics(
+          REFERENCE_METRIC_IDS.map((metricId) => ({ id: metricId }))
+        ),
+      }
+    );
+
+    expect(judge).not.toHaveBeenCalled();
+    for (const metricId of REFERENCE_METRIC_IDS) {
+      expect(failures[metricId] ?? 0).toBe(0);
+      expect(metrics.scores).not.toHaveProperty(metricId);
+      for (const evaluation of evaluations) {
+        expect(evaluation.metrics.scores).not.toHaveProperty(metricId);
+      }
+    }
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Reference metrics against hand-computed scores
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  bleu,
+  exactMatch,
+  jsonMatch,
+  normalizeText,
+  rougeL,
+  tokenF1,
+} from '../src/utils/reference-metrics.js';
+
+describe('exactMatch', () => {
+  it('compares normalized texts', () => {
+    expect(normalizeText('The  Paris!')).toBe('paris');
+    expect(exactMatch('The Paris!', 'paris')).toBe(100);
+    expect(exactMatch('Paris, France', 'Paris')).toBe(0);
+  });
+});
+
+describe('tokenF1', () => {
+  it('scores shared tokens', () => {
+    // cat sat on mat vs cat sat on hat: precision = recall = 3 / 4
+    expect(tokenF1('the cat sat on the mat', 'a cat sat on a hat')).toBe(75);
+    // precision 2 / 2, recall 2 / 4: F1 = 2 / 3
+    expect(tokenF1('red green', 'red green blue yellow')).toBe(66.7);
+  });
+
+  it('handles empty texts', () => {
+    expect(tokenF1('', '')).toBe(100);
+    expect(tokenF1('', 'paris')).toBe(0);
+  });
+});
+
+describe('rougeL', () => {
+  it('scores the longest common subsequence', () => {
+    // LCS one three four: precision = recall = 3 / 4
+    expect(rougeL('one two three four', 'one five three four')).toBe(75);
+    // LCS of length 1: precision 1 / 3, recall 1 / 5
+    expect(rougeL('police killed gunman', 'gunman was killed by police')).toBe(25);
+    expect(rougeL('alpha', 'beta')).toBe(0);
+  });
+});
+
+describe('bleu', () => {
+  it('is 100 for identical texts and 0 without shared words', () => {
+    expect(bleu('one two three four five', 'one two three four five')).toBe(100);
+    expect(bleu('alpha beta', 'gamma delta')).toBe(0);
+  });
+
+  it('applies the brevity penalty', () => {
+    // Every (smoothed) precision is 1; brevity penalty exp(1 - 4 / 3)
+    expect(bleu('one two three', 'one two three four')).toBe(71.7);
+  });
+});
+
+describe('jsonMatch', () => {
+  it('ignores formatting, fences and key order', () => {
+    expect(jsonMatch('```json\n{ "b": [1, 2], "a": 1 }\n```', '{"a":1,"b":[1,2]}')).toBe(100);
+    expect(jsonMatch('{"a": 1}', '{"a": 2}')).toBe(0);
+    expect(jsonMatch('[2, 1]', '[1, 2]')).toBe(0);
+    expect(jsonMatch('no JSON here', '{"a": 1}')).toBe(0);
+  });
+
+  it('does not apply when the reference is not an object or array', () => {
+    expect(jsonMatch('The answer is 42', '42')).toBeNull();
+    expect(jsonMatch('true', 'true')).toBeNull();
+    expect(jsonMatch('"yes"', '"yes"')).toBeNull();
+    expect(jsonMatch('{}', 'plain text')).toBeNull();
+  });
+});
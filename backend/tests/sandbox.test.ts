@@ -0,0 +1,135 @@
+/**
+ * Code execution sandbox: limits, blocked host access and test scoring
+ */
+
+import { describe, expect, it } from 'vitest';
+
+process.env['OPENAI_API_KEY'] = 'test-key';
+process.env['CODE_EXECUTION_TIMEOUT_MS'] = '300';
+process.env['CODE_EXECUTION_MEMORY_MB'] = '32';
+
+const { codeSandbox, extractCode } = await import('../src/core/sandbox.js');
+const { evaluator } = await import('../src/services/evaluator.js');
+
+const ADD = 'function add(a, b) { return a + b; }';
+
+describe('code sandbox', () => {
+  it('scores each test case and names unnamed ones by position', async () => {
+    const result = await codeSandbox.run(ADD, [
+      { name: 'adds', code: 'assert.equal(add(1, 2), 3)' },
+      { code: 'assert.deepEqual([add(1, 1)], [3])' },
+      { code: 'Promise.resolve().then(() => assert(add(2, 2) === 4))' },
+    ]);
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toBeUndefined();
+    expect(result.tests).toEqual([
+      { name: 'adds', passed: true },
+      { name: 'test 2', passed: false, error: 'Expected [3], got [2]' },
+      { name: 'test 3', passed: true },
+    ]);
+  });
+
+  it('passes when every test passes', async () => {
+    const result = await codeSandbox.run(ADD, [{ code: 'assert.equal(add(2, 3), 5)' }]);
+    expect(result).toEqual({ passed: true, tests: [{ name: 'test 1', passed: true }] });
+  });
+
+  it('fails every test when the code does not load', async () => {
+    const result = await codeSandbox.run('function add(a, b) {', [{ code: 'add(1, 2)' }]);
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toMatch(/Unexpected end of input/);
+    expect(result.tests[0]).toMatchObject({ passed: false, error: result.error });
+  });
+
+  it('stops code that runs past the time limit', async () => {
+    const result = await codeSandbox.run(ADD, [
+      { code: 'while (true) {}' },
+      { code: 'assert.equal(add(1, 1), 2)' },
+    ]);
+
+    expect(result.tests[0]).toMatchObject({
+      passed: false,
+      error: expect.stringMatching(/timed out/),
+    });
+    expect(result.tests[1]).toEqual({ name: 'test 2', passed: true });
+  });
+
+  it('fails a test whose promise never settles', async () => {
+    const result = await codeSandbox.run(ADD, [{ code: 'new Promise(() => {})' }]);
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toBe('Test never completed');
+  });
+
+  it('stops code that exceeds the memory limit', async () => {
+    const result = await codeSandbox.run(
+      'const chunks = []; while (true) chunks.push(new Array(1e5).fill(chunks.length));',
+      [{ code: 'assert(true)' }]
+    );
+
+    expect(result.passed).toBe(false);
+    expect(result.error).toMatch(/memory limit/);
+  });
+
+  it('blocks require, process and code generation from strings', async () => {
+    const result = await codeSandbox.run('', [
+      { name: 'require', code: "require('fs')" },
+      { name: 'process', code: "assert(typeof process === 'undefined', 'process is reachable')" },
+      { name: 'eval', code: "eval('1 + 1')" },
+      { name: 'Function', code: "new Function('return 1')()" },
+      { name: 'constructor', code: "(() => {}).constructor('return process')()" },
+    ]);
+
+    const byName = Object.fromEntries(result.tests.map((test) => [test.name, test]));
+    expect(byName['require']?.error).toMatch(/require is not available: fs/);
+    expect(byName['process']?.passed).toBe(true);
+    for (const name of ['eval', 'Function', 'constructor']) {
+      expect(byName[name]?.passed).toBe(false);
+      expect(byName[name]?.error).toMatch(/Code generation from strings disallowed/);
+    }
+  });
+});
+
+describe('extractCode', () => {
+  it('joins JavaScript fences and drops export keywords', () => {
+    const output = [
+      'Here you go:',
+      '```js',
+      'export function add(a, b) { return a + b; }',
+      '```',
+      '```python',
+      'def add(a, b): return a + b',
+      '```',
+      '```',
+      'export default const twice = (x) => add(x, x);',
+      '```',
+    ].join('\n');
+
+    expect(extractCode(output)).toBe(
+      'function add(a, b) { return a + b; }\n\nconst twice = (x) => add(x, x);\n'
+    );
+  });
+});
+
+describe('pass@k metric', () => {
+  it('scores outputs by whether all of their tests pass', async () => {
+    const { metrics } = await evaluator.evaluateExample(
+      'Write add(a, b).',
+      'add',
+      null,
+      '```js\nfunction add(a, b) { return a + b; }\n```',
+      ['```js\nfunction add(a, b) { return a + b; }\n```', 'function add(a, b) { return a - b; }'],
+      {},
+      [],
+      { metrics: evaluator.resolveMetrics([{ id: 'pass_at_k' }]), passK: 1 },
+      {
+        tests: [{ code: 'assert.equal(add(2, 0), 2)' }, { code: 'assert.equal(add(2, 3), 5)' }],
+      }
+    );
+
+    expect(metrics.scores['pass_at_k']).toBe(50);
+    expect(metrics.execution).toEqual({ pass_at_k: 50, k: 1, tests_passed: 75 });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Statistics helpers against hand-computed values
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '../src/utils/random.js';
+import {
+  bootstrapDifference,
+  bootstrapMean,
+  compareMetric,
+  krippendorffAlpha,
+  passAtK,
+  wilcoxonSignedRank,
+} from '../src/utils/statistics.js';
+
+describe('wilcoxonSignedRank', () => {
+  it('matches the exact null distribution', () => {
+    // Five pairs all improving: the smallest two-sided p-value possible is 2 / 2^5
+    expect(wilcoxonSignedRank([1, 2, 3, 4, 5])).toEqual({ statistic: 0, pValue: 0.0625, n: 5 });
+    expect(wilcoxonSignedRank([1, 2, 3, 4, 5, 6]).pValue).toBeCloseTo(0.03125, 10);
+
+    // W- = 2; rank sums of at most 2 come from {}, {1} and {2}: p = 2 * 3 / 2^8
+    expect(wilcoxonSignedRank([1, -2, 3, 4, 5, 6, 7, 8])).toEqual({
+      statistic: 2,
+      pValue: 0.0234375,
+      n: 8,
+    });
+  });
+
+  it('drops zero differences and averages tied ranks', () => {
+    // Ranks 2, 2, 2, 4: W- = 2, reached by 4 of the 16 sign patterns
+    expect(wilcoxonSignedRank([0, 1, 1, -1, 2, 0])).toEqual({ statistic: 2, pValue: 0.5, n: 4 });
+    // All magnitudes tied
+    expect(wilcoxonSignedRank([2, 2, 2, 2, 2, 2]).pValue).toBeCloseTo(0.03125, 10);
+  });
+
+  it('handles empty input, all zeros and a single pair', () => {
+    expect(wilcoxonSignedRank([])).toEqual({ statistic: 0, pValue: 1, n: 0 });
+    expect(wilcoxonSignedRank([0, 0, 0])).toEqual({ statistic: 0, pValue: 1, n: 0 });
+    expect(wilcoxonSignedRank([3])).toEqual({ statistic: 0, pValue: 1, n: 1 });
+  });
+
+  it('uses the normal approximation for large samples', () => {
+    const improving = Array.from({ length: 60 }, (_, i) => i + 1);
+    expect(wilcoxonSignedRank(improving).pValue).toBeLessThan(1e-5);
+
+    const balanced = improving.map((d, i) => (i % 4 === 0 || i % 4 === 3 ? d : -d));
+    expect(wilcoxonSignedRank(balanced).pValue).toBeGreaterThan(0.9);
+  });
+});
+
+describe('passAtK', () => {
+  it('matches the closed forms', () => {
+    // pass@1 = c / n
+    expect(passAtK(10, 3, 1)).toBeCloseTo(0.3, 10);
+    // 1 - C(3, 2) / C(5, 2)
+    expect(passAtK(5, 2, 2)).toBeCloseTo(0.7, 10);
+    // 1 - C(7, 3) / C(10, 3)
+    expect(passAtK(10, 3, 3)).toBeCloseTo(1 - 35 / 120, 10);
+  });
+
+  it('is 0 with no passing samples and 1 when every draw includes one', () => {
+    expect(passAtK(5, 0, 3)).toBe(0);
+    expect(passAtK(5, 5, 1)).toBe(1);
+    expect(passAtK(4, 1, 4)).toBe(1);
+    expect(passAtK(1, 1, 1)).toBe(1);
+    expect(passAtK(1, 0, 1)).toBe(0);
+  });
+});
+
+describe('bootstrapMean', () => {
+  it('is null for no values and collapses for constant ones', () => {
+    expect(bootstrapMean([])).toBeNull();
+    expect(bootstrapMean([70])).toEqual({ mean: 70, lower: 70, upper: 70 });
+    expect(bootstrapMean([40, 40, 40])).toEqual({ mean: 40, lower: 40, upper: 40 });
+  });
+
+  it('brackets the mean within the data range, reproducibly for a seed', () => {
+    const values = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    const ci = bootstrapMean(values, createSeededRandom('ci'));
+
+    expect(ci?.mean).toBe(55);
+    expect(ci?.lower).toBeGreaterThan(10);
+    expect(ci?.lower).toBeLessThan(55);
+    expect(ci?.upper).toBeGreaterThan(55);
+    expect(ci?.upper).toBeLessThan(100);
+    expect(bootstrapMean(values, createSeededRandom('ci'))).toEqual(ci);
+  });
+});
+
+describe('bootstrapDifference', () => {
+  it('finds no difference between identical groups', () => {
+    const { interval, pValue } = bootstrapDifference(
+      [50, 50, 50],
+      [50, 50, 50],
+      createSeededRandom('same')
+    );
+    expect(interval).toEqual({ mean: 0, lower: 0, upper: 0 });
+    expect(pValue).toBe(1);
+  });
+
+  it('finds separated groups significant', () => {
+    // Only 2 of the C(16, 8) = 12870 labelings are as extreme
+    const { interval, pValue } = bootstrapDifference(
+      new Array(8).fill(0),
+      new Array(8).fill(100),
+      createSeededRandom('apart')
+    );
+    expect(interval).toEqual({ mean: 100, lower: 100, upper: 100 });
+    expect(pValue).toBeLessThan(0.01);
+  });
+});
+
+describe('compareMetric', () => {
+  const scores = (values: number[], prefix = 'q') =>
+    values.map((value, i) => ({ input: `${prefix}${i}`, value }));
+
+  it('is null when a version has no scores', () => {
+    expect(compareMetric([], scores([1, 2]))).toBeNull();
+    expect(compareMetric(scores([1, 2]), [])).toBeNull();
+  });
+
+  it('pairs examples scored on both versions', () => {
+    const comparison = compareMetric(
+      scores([10, 20, 30, 40, 50]),
+      scores([11, 22, 33, 44, 55]),
+      createSeededRandom('paired')
+    );
+    expect(comparison).toMatchObject({
+      test: 'wilcoxon',
+      n: 5,
+      p_value: 0.0625,
+      significant: false,
+    });
+    expect(comparison?.delta.mean).toBe(3);
+  });
+
+  it('falls back to the permutation test without pairs', () => {
+    const comparison = compareMetric(
+      scores([10, 20, 30], 'a'),
+      scores([40, 50, 60], 'b'),
+      createSeededRandom('unpaired')
+    );
+    expect(comparison).toMatchObject({ test: 'permutation', n: 6 });
+    expect(comparison?.delta.mean).toBe(30);
+  });
+});
+
+describe('krippendorffAlpha', () => {
+  it('is 1 for perfect agreement and null without variation or pairs', () => {
+    expect(
+      krippendorffAlpha([
+        [80, 80],
+        [20, 20],
+        [50, 50],
+      ])
+    ).toBe(1);
+    expect(
+      krippendorffAlpha([
+        [70, 70],
+        [70, 70],
+      ])
+    ).toBeNull();
+    expect(krippendorffAlpha([[70], [30]])).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tournament pairing when a dataset repeats an input
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+
+process.env['OPENAI_API_KEY'] = 'test-key';
+
+const { llmClient } = await import('../src/core/llm-client.js');
+const { outputsByExample, tournament } = await import('../src/services/tournament.js');
+
+const examples = [
+  { input: 'Translate "bank"', expectedOutput: 'river bank' },
+  { input: 'Translate "bank"', expectedOutput: 'savings bank' },
+];
+
+describe('tournament', () => {
+  it('judges each example once, even when inputs repeat', async () => {
+    const judge = vi
+      .spyOn(llmClient, 'completeStructured')
+      .mockResolvedValue({ winner: 'A', rationale: 'First is better' });
+
+    const { matches, failures } = await tournament.run(
+      [
+        { id: 'v1', iteration: 1, outputs: { 0: 'rive', 1: 'banque' } },
+        { id: 'v2', iteration: 2, outputs: { 0: 'banque', 1: 'rive' } },
+      ],
+      examples
+    );
+
+    expect(failures).toBe(0);
+    expect(matches.map((match) => match.example_index)).toEqual([0, 1]);
+    // Both presentation orders of both examples, each with its own reference
+    expect(judge).toHaveBeenCalledTimes(4);
+    const prompts = judge.mock.calls.map(([prompt]) => prompt);
+    expect(prompts.filter((prompt) => prompt.includes('river bank'))).toHaveLength(2);
+    expect(prompts.filter((prompt) => prompt.includes('savings bank'))).toHaveLength(2);
+
+    judge.mockRestore();
+  });
+
+  it('keys outputs by example index, matching unindexed ones by input', () => {
+    expect(
+      outputsByExample(
+        [
+          { example_index: 1, input: 'Translate "bank"', output: 'banque' },
+          { input: 'Translate "bank"', output: 'rive' },
+        ],
+        examples
+      )
+    ).toEqual({ 0: 'rive', 1: 'banque' });
+    expect(outputsByExample([{ input: 'unknown', output: 'x' }], examples)).toEqual({});
+  });
+});
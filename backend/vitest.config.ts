@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    // Required by the config; tests never reach a real provider
+    env: { API_KEY: 'test-key' },
+  },
+});
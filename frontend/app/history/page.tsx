@@ -9,7 +9,7 @@ import { useState, useEffect } from "react";
 import { History, Copy, CheckCircle2, Clock, TrendingUp, ChevronRight, ArrowLeft } from "lucide-react";
 import Link from "next/link";
 import { toast } from "@/stores/toast-store";
-import { cn } from "@/lib/utils";
+import { cn, formatScore, metricLabel } from "@/lib/utils";
 
 interface HistoryItem {
   id: string;
@@ -27,11 +27,7 @@ interface HistoryDetail extends HistoryItem {
     iteration: number;
     prompt: string;
     metrics: {
-      relevance: number;
-      accuracy: number;
-      consistency: number;
-      efficiency: number;
-      readability: number;
+      scores: Record<string, number | null>;
       aggregate_score: number;
     };
     created_at: string;
@@ -298,24 +294,14 @@ export default function HistoryPage() {
 
                         {/* Metrics Grid */}
                         <div className="grid grid-cols-3 gap-2 mb-3">
-                          <div className="px-2 py-1 bg-zinc-800/50 rounded text-xs">
-                            <span className="text-zinc-500">Relevance</span>
-                            <span className="float-right text-white font-mono">
-                              {version.metrics.relevance.toFixed(0)}
-                            </span>
-                          </div>
-                          <div className="px-2 py-1 bg-zinc-800/50 rounded text-xs">
-                            <span className="text-zinc-500">Accuracy</span>
-                            <span className="float-right text-white font-mono">
-                              {version.metrics.accuracy.toFixed(0)}
-                            </span>
-                          </div>
-                          <div className="px-2 py-1 bg-zinc-800/50 rounded text-xs">
-                            <span className="text-zinc-500">Consistency</span>
-                            <span className="float-right text-white font-mono">
-                              {version.metrics.consistency.toFixed(0)}
-                            </span>
-                          </div>
+                          {Object.entries(version.metrics.scores).map(([id, score]) => (
+                            <div key={id} className="px-2 py-1 bg-zinc-800/50 rounded text-xs">
+                              <span className="text-zinc-500">{metricLabel(id)}</span>
+                              <span className="float-right text-white font-mono">
+                                {formatScore(score, 0)}
+                              </span>
+                            </div>
+                          ))}
                         </div>
 
                         {/* Prompt Preview */}
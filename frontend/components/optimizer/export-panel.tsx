@@ -10,6 +10,7 @@ import { Button } from "@/components/ui/button";
 import { Download, FileJson, FileText, FileCode, CheckCircle2 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "@/stores/toast-store";
+import { formatScore, metricLabel } from "@/lib/utils";
 
 export function ExportPanel() {
   const completedResult = useOptimizationStore((state) => state.completedResult);
@@ -84,9 +85,9 @@ ${bestIteration?.prompt_version || "N/A"}
 | Metric | Score |
 |--------|-------|
 | Aggregate | ${bestIteration?.metrics.aggregate.toFixed(2) || "N/A"} |
-| Relevance | ${bestIteration?.metrics.relevance.toFixed(2) || "N/A"} |
-| Accuracy | ${bestIteration?.metrics.accuracy.toFixed(2) || "N/A"} |
-| Consistency | ${bestIteration?.metrics.consistency.toFixed(2) || "N/A"} |
+${Object.entries(bestIteration?.metrics.scores || {})
+  .map(([id, score]) => `| ${metricLabel(id)} | ${formatScore(score, 2)} |`)
+  .join("\n")}
 
 ### Techniques Applied
 ${bestIteration?.techniques.map(t => `- ${t}`).join("\n") || "None"}
@@ -142,9 +143,9 @@ ${bestIteration?.prompt_version || "N/A"}
 
 METRICS:
 - Aggregate Score: ${bestIteration?.metrics.aggregate.toFixed(2) || "N/A"}
-- Relevance: ${bestIteration?.metrics.relevance.toFixed(2) || "N/A"}
-- Accuracy: ${bestIteration?.metrics.accuracy.toFixed(2) || "N/A"}
-- Consistency: ${bestIteration?.metrics.consistency.toFixed(2) || "N/A"}
+${Object.entries(bestIteration?.metrics.scores || {})
+  .map(([id, score]) => `- ${metricLabel(id)}: ${formatScore(score, 2)}`)
+  .join("\n")}
 
 TECHNIQUES APPLIED:
 ${bestIteration?.techniques.map(t => `- ${t}`).join("\n") || "None"}
@@ -14,9 +14,25 @@ import {
   Clock,
   Sparkles,
   Award,
+  MessageSquareWarning,
 } from "lucide-react";
 import { useState } from "react";
 import { toast } from "@/stores/toast-store";
+import { cn, formatScore, metricLabel } from "@/lib/utils";
+
+// Bar colors, assigned to the scored metrics in order
+const METRIC_COLORS = [
+  "bg-blue-500",
+  "bg-green-500",
+  "bg-purple-500",
+  "bg-yellow-500",
+  "bg-pink-500",
+  "bg-cyan-500",
+  "bg-lime-500",
+  "bg-orange-500",
+  "bg-emerald-500",
+  "bg-indigo-500",
+];
 
 export function MetricsDashboard() {
   const { completedResult, bestVersion, iterations } = useOptimizationStore();
@@ -46,6 +62,20 @@ export function MetricsDashboard() {
   };
 
   const metrics = bestIteration.metrics;
+  const failedJudgments = Object.entries(bestIteration.judge_failures || {}).filter(
+    ([, count]) => count > 0
+  );
+
+  // Examples with judge verdicts, lowest judged score first
+  const judgedExamples = bestIteration.breakdown
+    .filter((example) => example.verdicts)
+    .map((example) => ({
+      ...example,
+      lowestScore: Math.min(
+        ...Object.values(example.verdicts || {}).map((v) => v?.score ?? 100)
+      ),
+    }))
+    .sort((a, b) => a.lowestScore - b.lowestScore);
 
   return (
     <div className="space-y-6">
@@ -70,6 +100,27 @@ export function MetricsDashboard() {
             </p>
           </div>
         </div>
+        {completedResult.usage && (
+          <div className="flex items-center justify-between mt-3 pt-3 border-t border-primary/20 text-sm">
+            <span className="text-zinc-400">
+              {completedResult.usage.total_tokens.toLocaleString()} tokens
+              <span className="text-zinc-600"> · {completedResult.usage.calls} calls</span>
+            </span>
+            <span
+              className="font-semibold text-white"
+              title={
+                completedResult.usage.unpriced_models.length > 0
+                  ? `No price configured for: ${completedResult.usage.unpriced_models.join(", ")}`
+                  : undefined
+              }
+            >
+              ${completedResult.usage.cost_usd.toFixed(4)}
+              {completedResult.usage.unpriced_models.length > 0 && (
+                <span className="text-zinc-500">*</span>
+              )}
+            </span>
+          </div>
+        )}
       </div>
 
       {/* Optimized Prompt */}
@@ -103,88 +154,188 @@ export function MetricsDashboard() {
       {/* Detailed Metrics */}
       <div className="space-y-3">
         <h4 className="text-sm font-medium text-zinc-400">Detailed Metrics</h4>
+        {failedJudgments.length > 0 && (
+          <p className="text-xs text-amber-400/90">
+            Scoring failed for some examples and was excluded from the averages (
+            {failedJudgments.map(([metric, count]) => `${metricLabel(metric)}: ${count}`).join(", ")})
+          </p>
+        )}
         <div className="space-y-2">
-          {/* Relevance */}
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-zinc-400">Relevance</span>
-              <span className="text-white font-mono font-semibold">
-                {metrics.relevance.toFixed(1)}
-              </span>
-            </div>
-            <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-blue-500 transition-all duration-500"
-                style={{ width: `${metrics.relevance}%` }}
-              />
+          {Object.entries(metrics.scores).map(([id, score], index) => (
+            <div key={id} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-zinc-400">
+                  {metricLabel(id)}
+                  <span className="text-zinc-600 text-xs ml-2">×{metrics.weights[id] ?? 0}</span>
+                </span>
+                <span className="text-white font-mono font-semibold">{formatScore(score)}</span>
+              </div>
+              <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
+                <div
+                  className={cn(
+                    "h-full transition-all duration-500",
+                    METRIC_COLORS[index % METRIC_COLORS.length]
+                  )}
+                  style={{ width: `${score ?? 0}%` }}
+                />
+              </div>
             </div>
-          </div>
+          ))}
+        </div>
+      </div>
 
-          {/* Accuracy */}
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-zinc-400">Accuracy</span>
-              <span className="text-white font-mono font-semibold">
-                {metrics.accuracy.toFixed(1)}
-              </span>
-            </div>
-            <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-green-500 transition-all duration-500"
-                style={{ width: `${metrics.accuracy}%` }}
-              />
-            </div>
+      {/* Rubric criteria (generated per dataset) */}
+      {metrics.criteria && Object.keys(metrics.criteria).length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-zinc-400">Rubric Criteria</h4>
+            <span className="text-white font-mono font-semibold">
+              {formatScore(metrics.scores.rubric)}
+            </span>
           </div>
+          <div className="space-y-2">
+            {Object.entries(metrics.criteria).map(([name, score]) => (
+              <div key={name} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-zinc-400">{name}</span>
+                  <span className="text-white font-mono">{score.toFixed(1)}</span>
+                </div>
+                <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-cyan-500 transition-all duration-500"
+                    style={{ width: `${score}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
 
-          {/* Consistency */}
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-zinc-400">Consistency</span>
-              <span className="text-white font-mono font-semibold">
-                {metrics.consistency.toFixed(1)}
-              </span>
-            </div>
-            <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-purple-500 transition-all duration-500"
-                style={{ width: `${metrics.consistency}%` }}
-              />
-            </div>
+      {/* Code execution (test cases run against generated code) */}
+      {metrics.execution && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-zinc-400">Code Execution</h4>
+          <div className="space-y-2">
+            {(
+              [
+                [`pass@${metrics.execution.k}`, metrics.execution.pass_at_k],
+                ["Tests Passed", metrics.execution.tests_passed],
+              ] as Array<[string, number]>
+            ).map(([label, score]) => (
+              <div key={label} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-zinc-400">{label}</span>
+                  <span className="text-white font-mono">{score.toFixed(1)}</span>
+                </div>
+                <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-lime-500 transition-all duration-500"
+                    style={{ width: `${score}%` }}
+                  />
+                </div>
+              </div>
+            ))}
           </div>
+        </div>
+      )}
 
-          {/* Efficiency */}
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-zinc-400">Efficiency</span>
-              <span className="text-white font-mono font-semibold">
-                {metrics.efficiency.toFixed(1)}
+      {/* Assertions (hard requirements per example) */}
+      {metrics.assertions && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <h4 className="font-medium text-zinc-400">Assertions</h4>
+            <span className="text-white font-mono">
+              {metrics.assertions.pass_rate.toFixed(1)}
+              <span className="text-zinc-500 text-xs ml-2">
+                {metrics.assertions.passed}/{metrics.assertions.total} passed
               </span>
-            </div>
-            <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-yellow-500 transition-all duration-500"
-                style={{ width: `${metrics.efficiency}%` }}
-              />
-            </div>
+            </span>
+          </div>
+          <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-orange-500 transition-all duration-500"
+              style={{ width: `${metrics.assertions.pass_rate}%` }}
+            />
           </div>
+        </div>
+      )}
 
-          {/* Readability */}
-          <div className="space-y-1">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-zinc-400">Readability</span>
-              <span className="text-white font-mono font-semibold">
-                {metrics.readability.toFixed(1)}
-              </span>
-            </div>
-            <div className="h-2 bg-zinc-800 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-pink-500 transition-all duration-500"
-                style={{ width: `${metrics.readability}%` }}
-              />
+      {/* Judge Feedback */}
+      {judgedExamples.length > 0 && (
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium text-zinc-400 flex items-center gap-2">
+            <MessageSquareWarning className="w-4 h-4" />
+            Judge Feedback
+          </h4>
+          {metrics.agreement && (
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(metrics.agreement).map(([metric, agreement]) => (
+                <span
+                  key={metric}
+                  className="px-2 py-0.5 text-xs rounded-full bg-zinc-800 text-zinc-300"
+                  title={`Mean panel std dev ${agreement.mean_std_dev.toFixed(1)}; ${agreement.low_agreement_examples} low-agreement example(s)`}
+                >
+                  {metricLabel(metric)} α{" "}
+                  <span className="font-mono">{agreement.alpha === null ? "—" : agreement.alpha.toFixed(2)}</span>
+                </span>
+              ))}
             </div>
+          )}
+          <div className="space-y-2 max-h-96 overflow-y-auto custom-scrollbar">
+            {judgedExamples.map((example, index) => (
+              <details
+                key={index}
+                className="p-3 bg-zinc-900/30 rounded-lg border border-zinc-700/30"
+                open={index === 0}
+              >
+                <summary className="cursor-pointer text-sm text-zinc-300 flex items-center justify-between gap-2">
+                  <span className="truncate">{example.input}</span>
+                  <span className="font-mono text-white shrink-0">
+                    {example.lowestScore.toFixed(0)}
+                  </span>
+                </summary>
+                <div className="mt-3 space-y-2">
+                  {Object.entries(example.verdicts || {}).map(([metric, verdict]) => (
+                    <div key={metric} className="text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="text-zinc-400">{metricLabel(metric)}</span>
+                        <span className="font-mono text-white">
+                          {formatScore(verdict?.score, 0)}
+                        </span>
+                      </div>
+                      <p className="text-zinc-300 mt-0.5">
+                        {verdict ? verdict.rationale : "Judging failed"}
+                      </p>
+                      {verdict?.panel && (
+                        <p
+                          className={cn(
+                            "mt-0.5 text-xs font-mono",
+                            verdict.panel.low_agreement ? "text-amber-400/90" : "text-zinc-500"
+                          )}
+                        >
+                          {verdict.panel.low_agreement && "Low agreement · "}
+                          {verdict.panel.judges
+                            .map((judge) => `${judge.judge}: ${formatScore(judge.score, 0)}`)
+                            .join(", ")}{" "}
+                          (σ {verdict.panel.std_dev.toFixed(1)})
+                        </p>
+                      )}
+                      {verdict && verdict.issues.length > 0 && (
+                        <ul className="mt-1 list-disc list-inside text-xs text-amber-400/90">
+                          {verdict.issues.map((issue, i) => (
+                            <li key={i}>{issue}</li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </details>
+            ))}
           </div>
         </div>
-      </div>
+      )}
 
       {/* Iteration Comparison */}
       {iterations.length > 1 && (
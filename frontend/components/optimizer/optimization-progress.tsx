@@ -8,7 +8,7 @@
 import { useOptimizationStore } from "@/stores/optimization-store";
 import { useOptimization } from "@/hooks/use-optimization";
 import { Activity, CheckCircle2, Loader2, AlertCircle, Zap } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, formatScore, metricLabel } from "@/lib/utils";
 
 export function OptimizationProgress() {
   const { startOptimization } = useOptimization();
@@ -23,9 +23,12 @@ export function OptimizationProgress() {
     testProgress,
     currentTechnique,
     datasetInfo,
+    liveOutputs,
     iterations,
   } = useOptimizationStore();
 
+  const activeStreams = Object.entries(liveOutputs);
+
   const canStartOptimization = prompt.trim().length > 0 && !isOptimizing;
 
   return (
@@ -123,6 +126,29 @@ export function OptimizationProgress() {
             </div>
           </div>
 
+          {/* Live Model Output */}
+          {activeStreams.length > 0 && (
+            <div className="space-y-2">
+              {activeStreams.map(([key, stream]) => (
+                <div
+                  key={key}
+                  className="p-3 bg-zinc-900/50 rounded-lg border border-zinc-700/30"
+                >
+                  <div className="flex items-center gap-2 mb-2 text-xs text-zinc-400">
+                    <span className="w-2 h-2 rounded-full bg-primary animate-pulse" />
+                    <span>{stream.label}</span>
+                  </div>
+                  {/* Reversed flex keeps the newest text in view */}
+                  <div className="max-h-40 overflow-y-auto custom-scrollbar flex flex-col-reverse">
+                    <pre className="text-xs text-zinc-300 whitespace-pre-wrap font-mono leading-relaxed">
+                      {stream.text}
+                    </pre>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Dataset Info */}
           {datasetInfo && (
             <div className="p-3 bg-zinc-900/30 rounded-lg border border-zinc-700/30">
@@ -162,18 +188,15 @@ export function OptimizationProgress() {
                 
                 {/* Mini metrics */}
                 <div className="mt-2 grid grid-cols-3 gap-2 text-xs">
-                  <div className="flex items-center justify-between px-2 py-1 bg-zinc-800/50 rounded">
-                    <span className="text-zinc-500">Rel</span>
-                    <span className="text-white font-mono">{iter.metrics.relevance.toFixed(0)}</span>
-                  </div>
-                  <div className="flex items-center justify-between px-2 py-1 bg-zinc-800/50 rounded">
-                    <span className="text-zinc-500">Acc</span>
-                    <span className="text-white font-mono">{iter.metrics.accuracy.toFixed(0)}</span>
-                  </div>
-                  <div className="flex items-center justify-between px-2 py-1 bg-zinc-800/50 rounded">
-                    <span className="text-zinc-500">Cons</span>
-                    <span className="text-white font-mono">{iter.metrics.consistency.toFixed(0)}</span>
-                  </div>
+                  {Object.entries(iter.metrics.scores).map(([id, score]) => (
+                    <div
+                      key={id}
+                      className="flex items-center justify-between gap-1 px-2 py-1 bg-zinc-800/50 rounded"
+                    >
+                      <span className="text-zinc-500 truncate">{metricLabel(id)}</span>
+                      <span className="text-white font-mono">{formatScore(score, 0)}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             ))}
@@ -5,36 +5,79 @@
 "use client";
 
 import { useOptimizationStore } from "@/stores/optimization-store";
+import { apiClient } from "@/lib/api-client";
+import type { MetricComparison } from "@/lib/types";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { cn } from "@/lib/utils";
+import { cn, formatScore, metricLabel } from "@/lib/utils";
 import { GitCompare, ChevronDown, TrendingUp, TrendingDown, Minus } from "lucide-react";
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
+
+// Change between two scores; unknown when either is missing or could not be scored
+function diffScores(before: number | null, after: number | null): number | null {
+  return before === null || after === null ? null : after - before;
+}
 
 export function VersionComparison() {
   const iterations = useOptimizationStore((state) => state.iterations);
   const selectedVersions = useOptimizationStore((state) => state.selectedVersions);
   const setSelectedVersions = useOptimizationStore((state) => state.setSelectedVersions);
   const [showFullPrompts, setShowFullPrompts] = useState(false);
+  const [comparison, setComparison] = useState<{
+    key: string;
+    statistics: Record<string, MetricComparison | null>;
+  } | null>(null);
 
   // Get the two versions to compare
   const version1 = iterations[selectedVersions[0] - 1];
   const version2 = iterations[selectedVersions[1] - 1];
+  const version1Id = version1?.version_id;
+  const version2Id = version2?.version_id;
+  const comparisonKey = `${version1Id}:${version2Id}`;
+
+  // Confidence intervals and significance are computed by the backend from the
+  // stored per-example scores
+  useEffect(() => {
+    if (!version1Id || !version2Id || version1Id === version2Id) return;
+
+    let cancelled = false;
+    apiClient
+      .compareVersions(version1Id, version2Id)
+      .then((result) => {
+        if (!cancelled) setComparison({ key: `${version1Id}:${version2Id}`, statistics: result.statistics });
+      })
+      .catch((error) => console.error("Failed to load comparison statistics:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [version1Id, version2Id]);
+
+  const statistics = comparison?.key === comparisonKey ? comparison.statistics : null;
+  const aggregateStats = statistics?.aggregate_score;
 
   // Calculate metric differences
   const metricDiffs = useMemo(() => {
     if (!version1 || !version2) return null;
 
+    // Every metric scored for either version
+    const ids = [
+      ...new Set([...Object.keys(version1.metrics.scores), ...Object.keys(version2.metrics.scores)]),
+    ];
     return {
       aggregate: version2.metrics.aggregate - version1.metrics.aggregate,
-      relevance: version2.metrics.relevance - version1.metrics.relevance,
-      accuracy: version2.metrics.accuracy - version1.metrics.accuracy,
-      consistency: version2.metrics.consistency - version1.metrics.consistency,
+      scores: ids.map((id) => {
+        const before = version1.metrics.scores[id] ?? null;
+        const after = version2.metrics.scores[id] ?? null;
+        return { id, before, after, diff: diffScores(before, after) };
+      }),
     };
   }, [version1, version2]);
 
-  const renderMetricChange = (diff: number) => {
-    if (diff > 0.1) {
+  const renderMetricChange = (diff: number | null) => {
+    if (diff === null) {
+      return <span className="text-xs font-mono text-zinc-500">—</span>;
+    } else if (diff > 0.1) {
       return (
         <div className="flex items-center gap-1 text-primary">
           <TrendingUp className="w-3 h-3" />
@@ -58,6 +101,24 @@ export function VersionComparison() {
     }
   };
 
+  const renderSignificance = (stat: MetricComparison | null | undefined) => {
+    if (!stat) return null;
+
+    return (
+      <div
+        className="text-[10px] font-mono text-zinc-500"
+        title={`${stat.test === "wilcoxon" ? "Wilcoxon signed-rank" : "Permutation"} test, n = ${stat.n}`}
+      >
+        95% CI [{stat.delta.lower.toFixed(1)}, {stat.delta.upper.toFixed(1)}]{" "}
+        {stat.significant ? (
+          <span className="text-primary">p = {stat.p_value.toFixed(3)}</span>
+        ) : (
+          <span className="text-amber-400/90">not significant</span>
+        )}
+      </div>
+    );
+  };
+
   if (!iterations.length) {
     return (
       <Card variant="glass">
@@ -153,58 +214,23 @@ export function VersionComparison() {
                   </div>
                   {renderMetricChange(metricDiffs.aggregate)}
                 </div>
+                {renderSignificance(statistics?.aggregate_score)}
               </div>
 
-              {/* Relevance */}
-              <div className="space-y-1">
-                <div className="text-xs text-zinc-500">Relevance</div>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-mono text-zinc-400">
-                      {version1.metrics.relevance.toFixed(2)}
-                    </span>
-                    <span className="text-zinc-600">→</span>
-                    <span className="text-sm font-mono text-white">
-                      {version2.metrics.relevance.toFixed(2)}
-                    </span>
+              {metricDiffs.scores.map(({ id, before, after, diff }) => (
+                <div key={id} className="space-y-1">
+                  <div className="text-xs text-zinc-500">{metricLabel(id)}</div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-mono text-zinc-400">{formatScore(before, 2)}</span>
+                      <span className="text-zinc-600">→</span>
+                      <span className="text-sm font-mono text-white">{formatScore(after, 2)}</span>
+                    </div>
+                    {renderMetricChange(diff)}
                   </div>
-                  {renderMetricChange(metricDiffs.relevance)}
+                  {renderSignificance(statistics?.[id])}
                 </div>
-              </div>
-
-              {/* Accuracy */}
-              <div className="space-y-1">
-                <div className="text-xs text-zinc-500">Accuracy</div>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-mono text-zinc-400">
-                      {version1.metrics.accuracy.toFixed(2)}
-                    </span>
-                    <span className="text-zinc-600">→</span>
-                    <span className="text-sm font-mono text-white">
-                      {version2.metrics.accuracy.toFixed(2)}
-                    </span>
-                  </div>
-                  {renderMetricChange(metricDiffs.accuracy)}
-                </div>
-              </div>
-
-              {/* Consistency */}
-              <div className="space-y-1">
-                <div className="text-xs text-zinc-500">Consistency</div>
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <span className="text-sm font-mono text-zinc-400">
-                      {version1.metrics.consistency.toFixed(2)}
-                    </span>
-                    <span className="text-zinc-600">→</span>
-                    <span className="text-sm font-mono text-zinc-300">
-                      {version2.metrics.consistency.toFixed(2)}
-                    </span>
-                  </div>
-                  {renderMetricChange(metricDiffs.consistency)}
-                </div>
-              </div>
+              ))}
             </div>
           </div>
         )}
@@ -303,6 +329,12 @@ export function VersionComparison() {
                 </span>
               )}
             </div>
+            {aggregateStats && !aggregateStats.significant && Math.abs(metricDiffs.aggregate) > 0.5 && (
+              <div className="mt-1 text-xs text-amber-400/90">
+                Improvement not significant (p = {aggregateStats.p_value.toFixed(2)}, n = {aggregateStats.n}) —
+                the difference may be sampling noise
+              </div>
+            )}
           </div>
         )}
       </CardContent>
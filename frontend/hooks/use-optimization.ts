@@ -15,6 +15,7 @@ import { toast } from "@/stores/toast-store";
 export function useOptimization() {
   const store = useOptimizationStore();
   const sseClientRef = useRef<SSEClient | null>(null);
+  const promptIdRef = useRef<string | null>(null);
 
   /**
    * Start optimization with current store configuration.
@@ -57,7 +58,12 @@ export function useOptimization() {
           toast.info("Optimization Started", `${event.data.total_iterations} iteration(s)`, 2000);
           break;
 
+        case "prompt_created":
+          promptIdRef.current = event.data.prompt_id;
+          break;
+
         case "dataset_generated":
+          store.clearLiveOutputs();
           store.setDatasetInfo(event.data.example_count, event.data.domain);
           store.setCurrentStep("Building framework-structured prompt...");
           toast.success(
@@ -68,6 +74,7 @@ export function useOptimization() {
           break;
 
         case "iteration_start":
+          store.clearLiveOutputs();
           store.setCurrentStep(`Iteration ${event.data.iteration}: Running tests...`);
           toast.info(`Iteration ${event.data.iteration}`, "Starting evaluation", 2000);
           break;
@@ -88,6 +95,7 @@ export function useOptimization() {
           break;
 
         case "evaluating_metrics":
+          store.clearLiveOutputs();
           store.setCurrentStep(`Iteration ${event.data.iteration}: Evaluating metrics...`);
           store.setTestProgress(null, 0);
           break;
@@ -102,27 +110,35 @@ export function useOptimization() {
           break;
 
         case "prompt_improved":
+          store.clearLiveOutputs();
           store.setCurrentStep(`Iteration ${event.data.iteration}: Prompt improved via RSIP`);
           toast.success("Prompt Improved", `RSIP applied for iteration ${event.data.iteration + 1}`, 2000);
           break;
 
+        case "token_delta":
+          store.appendLiveOutput(event.data);
+          break;
+
         case "iteration_complete":
           const iterResult: IterationResult = {
             iteration: event.data.iteration,
             prompt: event.data.prompt_version,
             metrics: {
-              relevance: event.data.metrics.relevance,
-              accuracy: event.data.metrics.accuracy,
-              consistency: event.data.metrics.consistency,
-              efficiency: event.data.metrics.efficiency,
-              readability: event.data.metrics.readability,
+              scores: event.data.metrics.scores,
+              weights: event.data.metrics.weights,
+              criteria: event.data.metrics.criteria,
+              agreement: event.data.metrics.agreement,
+              execution: event.data.metrics.execution,
+              assertions: event.data.metrics.assertions,
               aggregate: event.data.metrics.aggregate_score,
             },
-            version_id: `v${event.data.iteration}`,
+            version_id: event.data.version_id,
+            judge_failures: event.data.judge_failures,
             breakdown: event.data.evaluation_details || [],
             techniques: event.data.techniques as Technique[],
             parameters: store.parameters,
-            tokens_used: 0,
+            tokens_used: event.data.usage.total_tokens,
+            usage: event.data.usage,
             duration_seconds: event.data.duration_seconds,
             created_at: new Date().toISOString(),
           };
@@ -134,32 +150,51 @@ export function useOptimization() {
           );
           break;
 
+        case "running_tournament":
+          store.setCurrentStep(`Ranking ${event.data.version_count} versions by pairwise tournament...`);
+          break;
+
+        case "tournament_complete":
+          if (event.data.standings[0]) {
+            toast.info(
+              "Tournament Complete",
+              `Iteration ${event.data.standings[0].iteration} ranked first (rating ${event.data.standings[0].rating})`,
+              3000
+            );
+          }
+          break;
+
         case "optimization_complete":
+          promptIdRef.current = null;
           const completedResult: OptimizationComplete = {
             prompt_id: `opt_${Date.now()}`,
             best_version: event.data.best_version.iteration,
-            all_iterations: event.data.all_versions.map((v: any, i: number) => ({
+            all_iterations: event.data.all_versions.map((v: any) => ({
               iteration: v.iteration,
               prompt: v.prompt,
               metrics: {
-                relevance: v.metrics.relevance,
-                accuracy: v.metrics.accuracy,
-                consistency: v.metrics.consistency,
-                efficiency: v.metrics.efficiency,
-                readability: v.metrics.readability,
+                scores: v.metrics.scores,
+                weights: v.metrics.weights,
+                criteria: v.metrics.criteria,
+                agreement: v.metrics.agreement,
+                execution: v.metrics.execution,
+                assertions: v.metrics.assertions,
                 aggregate: v.metrics.aggregate_score,
               },
-              version_id: `v${v.iteration}`,
+              version_id: v.version_id,
               breakdown: [],
               techniques: store.techniques,
               parameters: store.parameters,
-              tokens_used: 0,
+              tokens_used:
+                useOptimizationStore.getState().iterations.find((iter) => iter.iteration === v.iteration)
+                  ?.tokens_used ?? 0,
               duration_seconds: event.data.total_time_seconds,
               created_at: new Date().toISOString(),
             })),
             improvement_percentage: 0,
             total_duration_seconds: event.data.total_time_seconds,
-            total_tokens_used: 0,
+            total_tokens_used: event.data.usage.total_tokens,
+            usage: event.data.usage,
           };
           store.completeOptimization(completedResult);
           store.setBestVersion(event.data.best_version.iteration);
@@ -170,7 +205,18 @@ export function useOptimization() {
           );
           break;
 
+        case "optimization_cancelled":
+          promptIdRef.current = null;
+          toast.info(
+            "Optimization Cancelled",
+            `${event.data.completed_iterations} completed iteration(s) saved`,
+            3000
+          );
+          store.cancelOptimization();
+          break;
+
         case "error":
+          promptIdRef.current = null;
           console.error("❌ [Optimization Error]", event.data.message);
           toast.error(
             "Optimization Failed",
@@ -226,14 +272,22 @@ export function useOptimization() {
   }, [store]);
 
   /**
-   * Stop optimization and disconnect SSE.
+   * Stop optimization: cancel the run on the server and disconnect SSE.
    */
   const stopOptimization = useCallback(() => {
+    if (promptIdRef.current) {
+      // Disconnecting alone also cancels server-side; the explicit call covers proxies
+      // that keep the upstream connection open
+      apiClient.cancelOptimization(promptIdRef.current).catch((error) => {
+        console.error("Failed to cancel optimization:", error);
+      });
+      promptIdRef.current = null;
+    }
     if (sseClientRef.current) {
       sseClientRef.current.disconnect();
       sseClientRef.current = null;
     }
-    store.resetOptimization();
+    store.cancelOptimization();
   }, [store]);
 
   /**
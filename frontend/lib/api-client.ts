@@ -2,7 +2,15 @@
  * Type-safe API client for PowerPrompts backend.
  */
 
-import { OptimizeRequest, FrameworkInfo, TechniqueInfo } from "./types";
+import {
+  OptimizeRequest,
+  FrameworkInfo,
+  TechniqueInfo,
+  MetricInfo,
+  DatasetUploadRequest,
+  DatasetUploadResponse,
+  VersionComparisonResult,
+} from "./types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
 const API_KEY = process.env.NEXT_PUBLIC_API_KEY || "";
@@ -94,6 +102,29 @@ export const apiClient = {
     return response.json();
   },
 
+  /**
+   * Get all registered metrics (IDs, default weights) selectable per request.
+   */
+  async getMetrics(): Promise<{ metrics: MetricInfo[] }> {
+    const response = await fetchWithRetry(`${API_BASE_URL}/api/metrics`, {
+      method: "GET",
+    });
+    return response.json();
+  },
+
+  /**
+   * Import a CSV/JSONL dataset; pass its dataset_id in dataset_config to optimize against it.
+   * A rejected upload throws an APIError whose body lists the invalid rows.
+   */
+  async uploadDataset(request: DatasetUploadRequest): Promise<DatasetUploadResponse> {
+    const response = await fetchWithRetry(
+      `${API_BASE_URL}/api/datasets/upload`,
+      { method: "POST", body: JSON.stringify(request) },
+      1
+    );
+    return response.json();
+  },
+
   /**
    * Get SSE URL for optimization stream.
    * Note: SSE connection handled separately in streaming.ts
@@ -108,5 +139,28 @@ export const apiClient = {
   getOptimizeRequestBody(request: OptimizeRequest): string {
     return JSON.stringify(request);
   },
+
+  /**
+   * Cancel a running optimization (completed versions are kept).
+   */
+  async cancelOptimization(promptId: string): Promise<{ success: boolean; prompt_id: string }> {
+    const response = await fetchWithRetry(
+      `${API_BASE_URL}/api/optimize/${encodeURIComponent(promptId)}/cancel`,
+      { method: "POST" },
+      1
+    );
+    return response.json();
+  },
+
+  /**
+   * Compare two stored versions (metric deltas with confidence intervals and significance).
+   */
+  async compareVersions(version1Id: string, version2Id: string): Promise<VersionComparisonResult> {
+    const response = await fetchWithRetry(
+      `${API_BASE_URL}/api/versions/compare/${encodeURIComponent(version1Id)}/${encodeURIComponent(version2Id)}`,
+      { method: "GET" }
+    );
+    return response.json();
+  },
 };
 
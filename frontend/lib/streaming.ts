@@ -101,8 +101,12 @@ export class SSEClient {
               const data = JSON.parse(eventData);
               this.onEvent({ type: eventType, data } as SSEEvent);
 
-              // Close connection on completion or error
-              if (eventType === "optimization_complete" || eventType === "error") {
+              // Close connection on completion, cancellation or error
+              if (
+                eventType === "optimization_complete" ||
+                eventType === "optimization_cancelled" ||
+                eventType === "error"
+              ) {
                 this.disconnect();
                 this.onComplete();
                 return;
@@ -29,39 +29,205 @@ export interface LLMParameters {
 
 // Dataset Configuration
 export interface DatasetConfig {
-  dataset_id?: string;
+  dataset_id?: string; // stored (e.g. uploaded) dataset to evaluate on instead of generating one
   example_count: number;
   domain_hints?: string[];
   difficulty_levels: string[];
 }
 
+export interface EvaluationConfig {
+  consistency_runs: number; // 1-5 executions per example (2+ measures consistency)
+  consistency_llm_check: boolean;
+  best_version_selection?: "aggregate" | "tournament"; // tournament = pairwise judging of outputs
+  judge_panel?: {
+    models: string[]; // empty = the judging stage's model
+    samples: number;
+    aggregation: "mean" | "median";
+  };
+  reference_metrics?: Array<"exact_match" | "token_f1" | "rouge_l" | "bleu" | "json_match">;
+  pass_k?: number; // pass@k on code-generation examples with test cases
+}
+
 // Optimization Request
+// How the optimized prompt is executed (plain prompt, system prompt, user template, or
+// system prompt + message template)
+export type PromptFormat = "plain" | "system" | "user_template" | "messages";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
 export interface OptimizeRequest {
   prompt: string;
   selected_framework?: Framework;
   techniques_enabled: Technique[];
   parameters: LLMParameters;
   dataset_config: DatasetConfig;
+  evaluation_config?: EvaluationConfig;
   iteration_count?: number; // 1-3 iterations
+  prompt_format?: PromptFormat;
+  messages?: ChatMessage[]; // Template turns for "messages" format ({input} = example input)
+  metrics?: MetricSelection[]; // default: the registry's default metrics
+  custom_metrics?: CustomMetric[];
+}
+
+// Metric chosen for scoring, optionally reweighted (IDs from GET /api/metrics)
+export interface MetricSelection {
+  id: string;
+  weight?: number;
+}
+
+// User-defined LLM-judge metric; prompt must contain {output} ({input}, {expected_output} optional)
+export interface CustomMetric {
+  id: string;
+  name: string;
+  prompt: string;
+  weight?: number;
+}
+
+// Metric registered in the backend
+export interface MetricInfo {
+  id: string;
+  name: string;
+  kind: "builtin" | "deterministic" | "llm_judge";
+  description: string;
+  weight: number;
+  default_selected: boolean;
 }
 
-// Metrics
+// Example fields an uploaded dataset can provide
+export type DatasetField = "input" | "expected_output" | "difficulty" | "tags" | "assertions" | "tests";
+
+// Dataset upload: CSV (first row = header) or JSONL (one object per line)
+export interface DatasetUploadRequest {
+  format: "csv" | "jsonl";
+  content: string;
+  mapping?: Partial<Record<DatasetField, string>>; // field -> CSV column or JSONL key
+  domain?: string; // default "custom"
+  criteria?: Array<{ name: string; description: string; weight: number }>; // rubric criteria
+}
+
+export interface DatasetUploadResponse {
+  success: boolean;
+  dataset_id: string;
+  example_count: number;
+  domain: string;
+}
+
+// Invalid row of a rejected upload (the 400 response's details)
+export interface DatasetImportIssue {
+  line: number;
+  field?: string;
+  message: string;
+}
+
+// Metrics, keyed by metric ID (null = scoring failed); only metrics that applied are present
 export interface Metrics {
-  relevance: number;
-  accuracy: number;
-  consistency: number;
-  efficiency: number;
-  readability: number;
+  scores: Record<string, number | null>;
+  weights: Record<string, number>; // aggregate weight per scored metric
+  criteria?: Record<string, number>; // per-criterion rubric scores
+  agreement?: Record<string, JudgeAgreement>; // only with a judge panel
+  execution?: ExecutionScore; // only for code-generation examples with test cases
+  assertions?: AssertionScore; // only for examples with assertions
   aggregate: number;
 }
 
+// Pass rate of per-example assertions (contains, regex, JSON schema, max length, ...)
+export interface AssertionScore {
+  pass_rate: number;
+  passed: number;
+  total: number;
+}
+
+// Results of running generated code against test cases
+export interface ExecutionScore {
+  pass_at_k: number;
+  k: number;
+  tests_passed: number;
+}
+
+// Token usage and cost of a run or iteration
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+}
+
+export interface UsageReport extends UsageTotals {
+  by_stage: Record<string, UsageTotals>;
+  unpriced_models: string[];
+}
+
 // Example Breakdown
+// Failed scorings per selected metric in one iteration
+export type JudgeFailures = Record<string, number>;
+
+// Version ranking from a pairwise tournament (Bradley-Terry rating, 1000 = average)
+export interface TournamentStanding {
+  version_id: string;
+  iteration: number;
+  rating: number;
+  wins: number;
+  losses: number;
+  ties: number;
+}
+
+// Mean with a 95% bootstrap confidence interval
+export interface ConfidenceInterval {
+  mean: number;
+  lower: number;
+  upper: number;
+}
+
+// Change of one metric between two versions, with its significance test
+export interface MetricComparison {
+  test: "wilcoxon" | "permutation"; // paired on shared examples, else unpaired
+  n: number;
+  delta: ConfidenceInterval;
+  p_value: number;
+  significant: boolean;
+  version1: ConfidenceInterval | null;
+  version2: ConfidenceInterval | null;
+}
+
+// Backend comparison of two stored versions
+export interface VersionComparisonResult {
+  delta: Record<string, number | null>;
+  statistics: Record<string, MetricComparison | null>;
+}
+
+// Structured verdict of an LLM judge
+export interface JudgeVerdict {
+  score: number;
+  rationale: string;
+  issues: string[];
+  panel?: PanelVerdict; // individual scores when a judge panel was used
+}
+
+// Individual scores of a judge panel (null = that judge failed)
+export interface PanelVerdict {
+  judges: Array<{ judge: string; score: number | null }>;
+  std_dev: number;
+  low_agreement: boolean;
+}
+
+// Agreement of a judge panel on one metric (Krippendorff's alpha, interval)
+export interface JudgeAgreement {
+  alpha: number | null;
+  mean_std_dev: number;
+  low_agreement_examples: number;
+}
+
 export interface ExampleBreakdown {
   example_id: string;
   input: string;
   output: string;
   expected_output?: string;
   metrics: Metrics;
+  verdicts?: Record<string, JudgeVerdict | null>; // null = judging failed
   tokens_used: number;
   latency_ms: number;
 }
@@ -73,10 +239,12 @@ export interface IterationResult {
   prompt: string;
   critique?: string;
   metrics: Metrics;
+  judge_failures?: JudgeFailures;
   breakdown: ExampleBreakdown[];
   techniques: Technique[];
   parameters: LLMParameters;
   tokens_used: number;
+  usage?: UsageReport;
   duration_seconds: number;
   created_at: string;
 }
@@ -89,22 +257,38 @@ export interface OptimizationComplete {
   improvement_percentage: number;
   total_duration_seconds: number;
   total_tokens_used: number;
+  usage?: UsageReport;
+}
+
+// Live model output fragment streamed while a stage runs
+export interface TokenDelta {
+  stage: "dataset_generation" | "framework_building" | "execution" | "judging" | "rsip";
+  step?: string;
+  iteration?: number;
+  example_index?: number;
+  delta: string;
+  reset?: boolean;
 }
 
 // SSE Event Types (Discriminated Union) - Matches Backend
 export type SSEEvent =
   | { type: "optimization_start"; data: { total_iterations: number } }
-  | { type: "dataset_generated"; data: { example_count: number; domain: string } }
+  | { type: "prompt_created"; data: { prompt_id: string } }
+  | { type: "dataset_generated"; data: { dataset_id: string; example_count: number; domain: string } }
   | { type: "iteration_start"; data: { iteration: number; prompt: string } }
   | { type: "executing_tests"; data: { count: number; iteration: number } }
   | { type: "test_progress"; data: { current: number; total: number; iteration: number } }
   | { type: "applying_technique"; data: { technique: string; iteration: number } }
   | { type: "evaluating_metrics"; data: { iteration: number } }
-  | { type: "metrics_calculated"; data: { metrics: Metrics; iteration: number } }
+  | { type: "metrics_calculated"; data: { metrics: Metrics; judge_failures: JudgeFailures; iteration: number } }
   | { type: "applying_rsip"; data: { iteration: number } }
   | { type: "prompt_improved"; data: { iteration: number; critique: string; improved_prompt: string } }
-  | { type: "iteration_complete"; data: { iteration: number; prompt_version: string; metrics: Metrics; evaluation_details: any; techniques: string[]; duration_seconds: number } }
-  | { type: "optimization_complete"; data: { best_version: { iteration: number; prompt: string; metrics: Metrics }; all_versions: Array<{ iteration: number; prompt: string; metrics: Metrics }>; total_time_seconds: number } }
+  | { type: "token_delta"; data: TokenDelta }
+  | { type: "iteration_complete"; data: { iteration: number; version_id: string; prompt_version: string; metrics: Metrics; judge_failures: JudgeFailures; evaluation_details: any; techniques: string[]; duration_seconds: number; usage: UsageReport } }
+  | { type: "running_tournament"; data: { version_count: number } }
+  | { type: "tournament_complete"; data: { standings: TournamentStanding[]; failures: number } }
+  | { type: "optimization_complete"; data: { best_version: { iteration: number; version_id: string; prompt: string; metrics: Metrics }; all_versions: Array<{ iteration: number; version_id: string; prompt: string; metrics: Metrics }>; total_time_seconds: number; usage: UsageReport } }
+  | { type: "optimization_cancelled"; data: { prompt_id: string | null; completed_iterations: number; usage: UsageReport } }
   | { type: "error"; data: { message: string; details?: any } };
 
 // Framework Info
@@ -60,6 +60,53 @@ export function truncate(text: string, maxLength: number): string {
   return text.substring(0, maxLength) + "...";
 }
 
+/**
+ * Format a metric score, showing a dash for scores that could not be judged.
+ * 
+ * @param score - Metric score (0-100), null when judging failed
+ * @param digits - Decimal places
+ * @returns Formatted score string
+ */
+export function formatScore(score: number | null | undefined, digits: number = 1): string {
+  return score === null || score === undefined ? "—" : score.toFixed(digits);
+}
+
+/**
+ * Display names of the registered metrics
+ */
+const METRIC_LABELS: Record<string, string> = {
+  relevance: "Relevance",
+  accuracy: "Accuracy",
+  consistency: "Consistency",
+  efficiency: "Efficiency",
+  readability: "Readability",
+  rubric: "Rubric",
+  pass_at_k: "Pass@k",
+  assertions: "Assertions",
+  exact_match: "Exact Match",
+  token_f1: "Token F1",
+  rouge_l: "ROUGE-L",
+  bleu: "BLEU",
+  json_match: "JSON Match",
+  aggregate_score: "Overall",
+};
+
+/**
+ * Get the display name of a metric.
+ * 
+ * @param id - Metric ID (custom metrics are shown with their ID humanized)
+ * @returns Display name
+ */
+export function metricLabel(id: string): string {
+  return (
+    METRIC_LABELS[id] ??
+    id
+      .split("_")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ")
+  );
+}
+
 /**
  * Get color class for metric score.
  * 
@@ -11,8 +11,22 @@ import {
   DatasetConfig,
   IterationResult,
   OptimizationComplete,
+  TokenDelta,
 } from "@/lib/types";
 
+/**
+ * Live text of a model call currently streaming.
+ */
+export interface LiveOutput {
+  label: string;
+  text: string;
+}
+
+/**
+ * Keep only the tail of streamed text to bound re-render cost.
+ */
+const MAX_LIVE_OUTPUT_CHARS = 4000;
+
 /**
  * Optimization state interface.
  */
@@ -38,6 +52,7 @@ interface OptimizationState {
   testProgress: { current: number; total: number } | null;
   currentTechnique: string | null;
   datasetInfo: { count: number; domain: string } | null;
+  liveOutputs: Record<string, LiveOutput>;
 
   // UI State
   activeTab: "input" | "progress" | "results";
@@ -57,8 +72,11 @@ interface OptimizationState {
   setTestProgress: (current: number, total: number) => void;
   setCurrentTechnique: (technique: string | null) => void;
   setDatasetInfo: (count: number, domain: string) => void;
+  appendLiveOutput: (delta: TokenDelta) => void;
+  clearLiveOutputs: () => void;
   updateIteration: (iteration: IterationResult) => void;
   completeOptimization: (result: OptimizationComplete) => void;
+  cancelOptimization: () => void;
   resetOptimization: () => void;
   setBestVersion: (iteration: number) => void;
 
@@ -66,6 +84,24 @@ interface OptimizationState {
   setSelectedVersions: (versions: [number, number]) => void;
 }
 
+/**
+ * Human-readable label for a live output stream.
+ */
+function describeLiveOutput(delta: TokenDelta): string {
+  switch (delta.stage) {
+    case "framework_building":
+      return "Building framework prompt";
+    case "execution":
+      return `Example ${(delta.example_index ?? 0) + 1}`;
+    case "rsip":
+      return delta.step === "critique" ? "RSIP critique" : "RSIP improved prompt";
+    case "dataset_generation":
+      return "Generating dataset";
+    case "judging":
+      return "Judging";
+  }
+}
+
 /**
  * Default LLM parameters.
  */
@@ -109,6 +145,7 @@ export const useOptimizationStore = create<OptimizationState>()(
       testProgress: null,
       currentTechnique: null,
       datasetInfo: null,
+      liveOutputs: {},
 
       activeTab: "input",
       selectedVersions: [0, 1],
@@ -151,6 +188,7 @@ export const useOptimizationStore = create<OptimizationState>()(
           testProgress: null,
           currentTechnique: null,
           datasetInfo: null,
+          liveOutputs: {},
           activeTab: "progress",
         });
         console.log("🟢 [Store] State updated to isOptimizing: true");
@@ -168,6 +206,21 @@ export const useOptimizationStore = create<OptimizationState>()(
       setDatasetInfo: (count, domain) =>
         set({ datasetInfo: { count, domain } }),
 
+      appendLiveOutput: (delta) =>
+        set((state) => {
+          const key = [delta.stage, delta.step, delta.iteration, delta.example_index].join(":");
+          const previous = delta.reset ? "" : state.liveOutputs[key]?.text || "";
+          const text = (previous + delta.delta).slice(-MAX_LIVE_OUTPUT_CHARS);
+          return {
+            liveOutputs: {
+              ...state.liveOutputs,
+              [key]: { label: describeLiveOutput(delta), text },
+            },
+          };
+        }),
+
+      clearLiveOutputs: () => set({ liveOutputs: {} }),
+
       updateIteration: (iteration) =>
         set((state) => ({
           currentIteration: iteration.iteration,
@@ -185,6 +238,16 @@ export const useOptimizationStore = create<OptimizationState>()(
           activeTab: "results",
         }),
 
+      // Stop the run but keep its completed iterations (the server keeps them too)
+      cancelOptimization: () =>
+        set({
+          isOptimizing: false,
+          currentStep: "Optimization cancelled",
+          testProgress: null,
+          currentTechnique: null,
+          liveOutputs: {},
+        }),
+
       resetOptimization: () =>
         set({
           isOptimizing: false,
@@ -197,6 +260,7 @@ export const useOptimizationStore = create<OptimizationState>()(
           testProgress: null,
           currentTechnique: null,
           datasetInfo: null,
+          liveOutputs: {},
         }),
 
       setActiveTab: (tab) => set({ activeTab: tab }),